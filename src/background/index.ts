@@ -1,3 +1,15 @@
+import type { CaptureRenderer, Message, PaletteColor, StateRequest, StateResponse, UrlMatchRules } from '../types';
+import { CAPTURE_RENDERERS, DEFAULT_CAPTURE_RENDERER, DEFAULT_PALETTE, DEFAULT_URL_MATCH_RULES, HISTORY_CHANGE_EVENT } from '../types';
+import { normalizeUrl } from './url-rules';
+
+// chrome.storage.localのキー
+const URL_RULES_KEY = 'wdh-url-rules';
+const PALETTE_KEY = 'wdh-palette';
+const CAPTURE_RENDERER_KEY = 'wdh-capture-renderer';
+const STATE_KEY_PREFIX = 'wdh-state:';
+const HISTORY_KEY_PREFIX = 'wdh-history:';
+const HISTORY_INDEX_KEY = 'wdh-history-index';
+
 // 右クリックメニューを作成
 chrome.runtime.onInstalled.addListener(() => {
   chrome.contextMenus.create({
@@ -21,3 +33,188 @@ chrome.action.onClicked.addListener((tab) => {
     chrome.tabs.sendMessage(tab.id, { type: 'START_EDITING' });
   }
 });
+
+// URLの正規化ルールを取得
+async function getUrlRules(): Promise<UrlMatchRules> {
+  const result = await chrome.storage.local.get(URL_RULES_KEY);
+  return { ...DEFAULT_URL_MATCH_RULES, ...(result[URL_RULES_KEY] as Partial<UrlMatchRules> | undefined) };
+}
+
+// カラーパレットを取得（未設定なら初期のパレット）
+async function getPalette(): Promise<PaletteColor[]> {
+  const result = await chrome.storage.local.get(PALETTE_KEY);
+  const palette = result[PALETTE_KEY] as PaletteColor[] | undefined;
+  return Array.isArray(palette) && palette.length > 0 ? palette : DEFAULT_PALETTE;
+}
+
+// 画像出力時の描画方法を取得（未設定なら初期設定）
+async function getCaptureRenderer(): Promise<CaptureRenderer> {
+  const result = await chrome.storage.local.get(CAPTURE_RENDERER_KEY);
+  return CAPTURE_RENDERERS.find(r => r.value === result[CAPTURE_RENDERER_KEY])?.value ?? DEFAULT_CAPTURE_RENDERER;
+}
+
+// captureVisibleTabは1秒あたりの呼び出し回数に上限（2回）があるため、呼び出しの間隔を空ける
+const CAPTURE_INTERVAL = 550; // ms
+let lastCaptureTime = 0;
+
+// 送信元のタブの表示範囲をキャプチャ（PNGのdata URL）
+async function captureVisibleTab(tabId: number | undefined): Promise<string> {
+  if (tabId === undefined) {
+    throw new Error('No tab to capture');
+  }
+  const wait = lastCaptureTime + CAPTURE_INTERVAL - Date.now();
+  if (wait > 0) {
+    await new Promise(resolve => setTimeout(resolve, wait));
+  }
+  // キャプチャ中にタブを切り替えられた場合は別のタブを撮らないよう中止する
+  const tab = await chrome.tabs.get(tabId);
+  if (!tab.active) {
+    throw new Error('Tab is not active');
+  }
+  lastCaptureTime = Date.now();
+  return chrome.tabs.captureVisibleTab(tab.windowId, { format: 'png' });
+}
+
+// URLから保存キーを取得
+async function getStateKey(url: string): Promise<string> {
+  return normalizeUrl(url, await getUrlRules());
+}
+
+// 状態を読み込み
+async function loadState(request: StateRequest): Promise<StateResponse> {
+  const key = await getStateKey(request.url);
+  const stateKey = `${STATE_KEY_PREFIX}${key}`;
+  const historyKey = `${HISTORY_KEY_PREFIX}${key}`;
+  const result = await chrome.storage.local.get([stateKey, historyKey]);
+  return { key, state: result[stateKey] ?? null, history: result[historyKey] ?? null };
+}
+
+// 状態を保存
+async function saveState(request: StateRequest): Promise<StateResponse> {
+  const key = await getStateKey(request.url);
+  await chrome.storage.local.set({ [`${STATE_KEY_PREFIX}${key}`]: request.state });
+  return { key, state: null, history: null };
+}
+
+// 操作履歴を残すページ数（最近保存したページから残し、古いページの履歴は削除）
+const MAX_HISTORY_PAGES = 10;
+
+// 操作履歴を保存したページと最終保存日時の一覧を取得
+// 一覧がない場合（以前のバージョンで保存した履歴しかない場合）は、保存済みの履歴を最も古いものとして一覧に載せる
+async function getHistoryIndex(): Promise<Record<string, number>> {
+  const result = await chrome.storage.local.get(HISTORY_INDEX_KEY);
+  const index = result[HISTORY_INDEX_KEY] as Record<string, number> | undefined;
+  if (index) return { ...index };
+
+  const all = await chrome.storage.local.get(null);
+  return Object.fromEntries(
+    Object.keys(all)
+      .filter(key => key.startsWith(HISTORY_KEY_PREFIX))
+      .map(key => [key.slice(HISTORY_KEY_PREFIX.length), 0]),
+  );
+}
+
+// 操作履歴を保存（状態とは別に保存し、履歴の保存に失敗しても状態の保存には影響させない。JSON出力には含めない）
+async function saveHistory(request: StateRequest): Promise<StateResponse> {
+  const key = await getStateKey(request.url);
+  const index = await getHistoryIndex();
+  index[key] = Date.now();
+
+  // 保存日時の古いページの履歴を削除して容量を空ける
+  const evicted = Object.keys(index)
+    .sort((a, b) => index[b] - index[a])
+    .slice(MAX_HISTORY_PAGES);
+  evicted.forEach(k => delete index[k]);
+  if (evicted.length > 0) {
+    await chrome.storage.local.remove(evicted.map(k => `${HISTORY_KEY_PREFIX}${k}`));
+  }
+
+  await chrome.storage.local.set({ [HISTORY_INDEX_KEY]: index, [`${HISTORY_KEY_PREFIX}${key}`]: request.history });
+  return { key, state: null, history: null };
+}
+
+// ページのJavaScript環境で実行し、history.pushState・replaceStateの呼び出し時にイベントを発行させる
+// 注入先で単独で実行されるため、外側の変数や関数は参照できない
+function installHistoryHook(eventName: string): void {
+  const flags = window as unknown as Record<string, boolean>;
+  // 編集モードを開始し直した場合などに二重に包まない
+  if (flags.__wdhHistoryHook) return;
+  flags.__wdhHistoryHook = true;
+
+  (['pushState', 'replaceState'] as const).forEach(method => {
+    const original = history[method];
+    history[method] = function (this: History, ...args: Parameters<History['pushState']>) {
+      const result = original.apply(this, args);
+      window.dispatchEvent(new Event(eventName));
+      return result;
+    };
+  });
+}
+
+// SPAのページ遷移を検知するフックを送信元のタブ（トップフレーム）に注入
+async function watchHistory(tabId: number | undefined): Promise<boolean> {
+  if (tabId === undefined) {
+    throw new Error('No tab to watch');
+  }
+  await chrome.scripting.executeScript({
+    target: { tabId, frameIds: [0] },
+    world: 'MAIN',
+    func: installHistoryHook,
+    args: [HISTORY_CHANGE_EVENT],
+  });
+  return true;
+}
+
+// Content Scriptからの保存リクエストなどを処理
+chrome.runtime.onMessage.addListener((message: Message, sender, sendResponse) => {
+  let response: Promise<unknown>;
+  switch (message.type) {
+    case 'LOAD_STATE':
+      response = loadState(message.payload as StateRequest);
+      break;
+    case 'SAVE_STATE':
+      response = saveState(message.payload as StateRequest);
+      break;
+    case 'SAVE_HISTORY':
+      response = saveHistory(message.payload as StateRequest);
+      break;
+    case 'GET_STATE_KEY':
+      response = getStateKey((message.payload as StateRequest).url);
+      break;
+    case 'GET_URL_RULES':
+      response = getUrlRules();
+      break;
+    case 'SAVE_URL_RULES':
+      response = chrome.storage.local.set({ [URL_RULES_KEY]: message.payload }).then(getUrlRules);
+      break;
+    case 'GET_PALETTE':
+      response = getPalette();
+      break;
+    case 'SAVE_PALETTE':
+      response = chrome.storage.local.set({ [PALETTE_KEY]: message.payload }).then(getPalette);
+      break;
+    case 'GET_CAPTURE_RENDERER':
+      response = getCaptureRenderer();
+      break;
+    case 'SAVE_CAPTURE_RENDERER':
+      response = chrome.storage.local.set({ [CAPTURE_RENDERER_KEY]: message.payload }).then(getCaptureRenderer);
+      break;
+    case 'CAPTURE_VISIBLE_TAB':
+      response = captureVisibleTab(sender.tab?.id);
+      break;
+    case 'WATCH_HISTORY':
+      response = watchHistory(sender.tab?.id);
+      break;
+    default:
+      return false;
+  }
+
+  response
+    .then(sendResponse)
+    .catch(error => {
+      console.error(`WDH: ${message.type} request failed`, error);
+      sendResponse(null);
+    });
+  // 非同期でレスポンスを返す
+  return true;
+});
@@ -0,0 +1,52 @@
+import type { UrlMatchRules } from '../types';
+
+// グロブパターンを正規表現に変換（"*" は1階層、"**" は複数階層に一致）
+function globToRegExp(pattern: string): RegExp {
+  const source = pattern
+    .split('**')
+    .map(part => part
+      .split('*')
+      .map(s => s.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('[^/]*'))
+    .join('.*');
+  return new RegExp(`^${source}/?$`);
+}
+
+// URLがパターンに一致するか（"://" を含むパターンはオリジンも含めて比較）
+function matchesPattern(url: URL, pattern: string): boolean {
+  const target = pattern.includes('://') ? `${url.origin}${url.pathname}` : url.pathname;
+  return globToRegExp(pattern).test(target);
+}
+
+// ルールに従ってURLを正規化し、保存キーとして使う文字列を返す
+export function normalizeUrl(href: string, rules: UrlMatchRules): string {
+  let url: URL;
+  try {
+    url = new URL(href);
+  } catch {
+    return href;
+  }
+
+  // パターンに一致する場合はパスをパターンに置き換えて同じキーにまとめる
+  const pattern = rules.patterns.map(p => p.trim()).find(p => p && matchesPattern(url, p));
+  let base: string;
+  if (pattern) {
+    base = pattern.includes('://') ? pattern : `${url.origin}${pattern}`;
+  } else {
+    base = `${url.origin}${url.pathname}`;
+  }
+
+  // クエリ文字列
+  let query = '';
+  if (!rules.ignoreQuery) {
+    const params = new URLSearchParams(url.search);
+    rules.ignoredParams.forEach(name => params.delete(name));
+    const search = params.toString();
+    query = search ? `?${search}` : '';
+  }
+
+  // ハッシュ
+  const hash = rules.ignoreHash ? '' : url.hash;
+
+  return `${base}${query}${hash}`;
+}
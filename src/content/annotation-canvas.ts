@@ -0,0 +1,96 @@
+import type { StrokeStyle } from '../types';
+import type { BadgePlacement, LayoutRect } from './badge-layout';
+import { hexToRgba } from './utils';
+
+// 出力用キャンバスに描く注釈（位置はページ座標、CSS px）
+// 枠やバッジは閉じたシャドウルート内にありhtml2canvasに写らないため、キャプチャ後に直接描く
+export interface AnnotationDrawing {
+  id: string;
+  frame: LayoutRect; // 枠線を含む外側の矩形
+  color: string;
+  strokeStyle: StrokeStyle;
+  strokeWidth: number;
+  fillOpacity: number;
+  label: string;
+  badge: LayoutRect; // バッジの枠線を含む外側の矩形
+  badgeBorderWidth: number;
+  leader: BadgePlacement['leader'];
+}
+
+export const BADGE_FONT_FAMILY = 'Arial, sans-serif';
+export const BADGE_FONT_SIZE = 14;
+const BADGE_FONT = `bold ${BADGE_FONT_SIZE}px ${BADGE_FONT_FAMILY}`;
+export const LEADER_WIDTH = 2;
+
+// 枠線の種類に応じた破線のパターン（CSSのdashed・dottedに近い見た目）
+export function getLineDash(style: StrokeStyle, width: number): number[] {
+  switch (style) {
+    case 'dashed':
+      return [width * 3, width * 2];
+    case 'dotted':
+      // 長さ0の線を丸い端で描いて点にする
+      return [0, width * 2];
+    default:
+      return [];
+  }
+}
+
+// 枠（塗りと線）を描画
+function drawFrame(ctx: CanvasRenderingContext2D, item: AnnotationDrawing): void {
+  const { left, top, width, height } = item.frame;
+  if (item.fillOpacity > 0) {
+    ctx.fillStyle = hexToRgba(item.color, item.fillOpacity);
+    ctx.fillRect(left, top, width, height);
+  }
+
+  // 線は外側の矩形の内側に収まるよう、太さの半分だけ内側を通す
+  const half = item.strokeWidth / 2;
+  ctx.strokeStyle = item.color;
+  ctx.lineWidth = item.strokeWidth;
+  ctx.lineCap = item.strokeStyle === 'dotted' ? 'round' : 'butt';
+  ctx.setLineDash(getLineDash(item.strokeStyle, item.strokeWidth));
+  ctx.strokeRect(left + half, top + half, width - item.strokeWidth, height - item.strokeWidth);
+  ctx.setLineDash([]);
+}
+
+// 引き出し線を描画
+function drawLeader(ctx: CanvasRenderingContext2D, item: AnnotationDrawing): void {
+  if (!item.leader) return;
+  ctx.strokeStyle = item.color;
+  ctx.lineWidth = LEADER_WIDTH;
+  ctx.lineCap = 'butt';
+  ctx.beginPath();
+  ctx.moveTo(item.leader.x1, item.leader.y1);
+  ctx.lineTo(item.leader.x2, item.leader.y2);
+  ctx.stroke();
+}
+
+// 番号バッジ（白地に色付きの枠線とラベル）を描画
+function drawBadge(ctx: CanvasRenderingContext2D, item: AnnotationDrawing): void {
+  const { left, top, width, height } = item.badge;
+  const border = item.badgeBorderWidth;
+  ctx.fillStyle = '#ffffff';
+  ctx.strokeStyle = item.color;
+  ctx.lineWidth = border;
+  ctx.beginPath();
+  ctx.roundRect(left + border / 2, top + border / 2, width - border, height - border, (height - border) / 2);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.fillStyle = item.color;
+  ctx.font = BADGE_FONT;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(item.label, left + width / 2, top + height / 2);
+}
+
+// 出力用キャンバスに注釈の枠・引き出し線・番号バッジを描画（scaleはキャンバスのCSS pxに対する倍率）
+// ページ上と同じく、枠・引き出し線の上にバッジを重ねる
+export function drawAnnotationsOnCanvas(ctx: CanvasRenderingContext2D, items: AnnotationDrawing[], scale: number = 1): void {
+  ctx.save();
+  ctx.scale(scale, scale);
+  items.forEach(item => drawFrame(ctx, item));
+  items.forEach(item => drawLeader(ctx, item));
+  items.forEach(item => drawBadge(ctx, item));
+  ctx.restore();
+}
@@ -0,0 +1,132 @@
+import type { LayoutRect } from './badge-layout';
+import { BADGE_FONT_FAMILY, BADGE_FONT_SIZE, LEADER_WIDTH, getLineDash } from './annotation-canvas';
+import type { AnnotationDrawing } from './annotation-canvas';
+import { CENTRAL_BASELINE_RATIO, createShapeGroups, createSvgElement } from './shapes';
+import type { ResolvedShape } from './shapes';
+
+// 注釈をベクターのまま編集できるSVGを作成する
+// ページのキャプチャは背景の<image>として埋め込み、注釈は1つずつ<g>にまとめて枠・引き出し線・番号バッジを図形で描く
+// 座標は出力範囲の左上を原点にする（ベクター編集ツールで扱いやすいよう、変形を使わずに値そのものをずらす）
+
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+export interface AnnotatedSvg {
+  title: string;
+  area: LayoutRect; // 出力範囲（ページ座標）
+  image: string; // 出力範囲のキャプチャ（PNGのdata URL）
+  annotations: AnnotationDrawing[];
+  shapes: ResolvedShape[];
+}
+
+function offsetRect(rect: LayoutRect, area: LayoutRect): LayoutRect {
+  return { ...rect, left: rect.left - area.left, top: rect.top - area.top };
+}
+
+// 注釈1つ分のグループ（枠・引き出し線・番号バッジ）
+function createAnnotationGroup(item: AnnotationDrawing, area: LayoutRect): SVGGElement {
+  const group = createSvgElement('g', { id: `annotation-${item.id}`, 'data-id': item.id, 'data-label': item.label });
+  // ベクター編集ツールでレイヤー名として表示される
+  const title = createSvgElement('title', {});
+  title.textContent = item.label;
+  group.appendChild(title);
+
+  // 枠線は外側の矩形の内側に収まるよう、太さの半分だけ内側を通す（キャンバスへの描画と同じ）
+  const frame = offsetRect(item.frame, area);
+  const half = item.strokeWidth / 2;
+  const dash = getLineDash(item.strokeStyle, item.strokeWidth);
+  group.appendChild(createSvgElement('rect', {
+    x: frame.left + half,
+    y: frame.top + half,
+    width: Math.max(0, frame.width - item.strokeWidth),
+    height: Math.max(0, frame.height - item.strokeWidth),
+    fill: item.fillOpacity > 0 ? item.color : 'none',
+    ...(item.fillOpacity > 0 ? { 'fill-opacity': item.fillOpacity } : {}),
+    stroke: item.color,
+    'stroke-width': item.strokeWidth,
+    ...(dash.length > 0 ? { 'stroke-dasharray': dash.join(' ') } : {}),
+    ...(item.strokeStyle === 'dotted' ? { 'stroke-linecap': 'round' } : {}),
+  }));
+
+  if (item.leader) {
+    group.appendChild(createSvgElement('line', {
+      x1: item.leader.x1 - area.left,
+      y1: item.leader.y1 - area.top,
+      x2: item.leader.x2 - area.left,
+      y2: item.leader.y2 - area.top,
+      stroke: item.color,
+      'stroke-width': LEADER_WIDTH,
+    }));
+  }
+
+  const badge = offsetRect(item.badge, area);
+  const border = item.badgeBorderWidth;
+  group.appendChild(createSvgElement('rect', {
+    x: badge.left + border / 2,
+    y: badge.top + border / 2,
+    width: badge.width - border,
+    height: badge.height - border,
+    rx: (badge.height - border) / 2,
+    fill: '#ffffff',
+    stroke: item.color,
+    'stroke-width': border,
+  }));
+  // dominant-baselineに対応しないツールがあるため、ベースラインの位置を文字の大きさから求めて中央にそろえる
+  const label = createSvgElement('text', {
+    x: badge.left + badge.width / 2,
+    y: badge.top + badge.height / 2 + BADGE_FONT_SIZE * CENTRAL_BASELINE_RATIO,
+    fill: item.color,
+    'font-family': BADGE_FONT_FAMILY,
+    'font-size': BADGE_FONT_SIZE,
+    'font-weight': 'bold',
+    'text-anchor': 'middle',
+  });
+  label.textContent = item.label;
+  group.appendChild(label);
+
+  return group;
+}
+
+// SVGファイルの内容を作成
+export function createAnnotatedSvg({ title, area, image, annotations, shapes }: AnnotatedSvg): string {
+  const svg = createSvgElement('svg', {
+    width: area.width,
+    height: area.height,
+    viewBox: `0 0 ${area.width} ${area.height}`,
+  });
+  const titleEl = createSvgElement('title', {});
+  titleEl.textContent = title;
+  svg.appendChild(titleEl);
+
+  const background = createSvgElement('image', {
+    id: 'page',
+    x: 0,
+    y: 0,
+    width: area.width,
+    height: area.height,
+    preserveAspectRatio: 'none',
+  });
+  // 古いツールはhrefを読まないためxlink:hrefで指定
+  background.setAttributeNS(XLINK_NS, 'xlink:href', image);
+  svg.appendChild(background);
+
+  const annotationLayer = createSvgElement('g', { id: 'annotations' });
+  annotations.forEach(item => annotationLayer.appendChild(createAnnotationGroup(item, area)));
+  svg.appendChild(annotationLayer);
+
+  if (shapes.length > 0) {
+    const shapeLayer = createSvgElement('g', { id: 'shapes' });
+    const offsetShapes = shapes.map(shape => ({
+      ...shape,
+      points: {
+        x1: shape.points.x1 - area.left,
+        y1: shape.points.y1 - area.top,
+        x2: shape.points.x2 - area.left,
+        y2: shape.points.y2 - area.top,
+      },
+    }));
+    shapeLayer.append(...createShapeGroups(offsetShapes));
+    svg.appendChild(shapeLayer);
+  }
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${new XMLSerializer().serializeToString(svg)}\n`;
+}
@@ -0,0 +1,156 @@
+import type { BadgeAnchor, BadgeSide } from '../types';
+
+// ページ座標の矩形
+export interface LayoutRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// 配置するバッジ（frameは枠線を含む枠の外形）
+export interface BadgeLayoutItem {
+  id: string;
+  frame: LayoutRect;
+  inset: number; // 枠線の太さ（内側に置く場合はこの分だけ内側に寄せる）
+  width: number; // バッジの外形（ボーダーを含む）
+  height: number;
+  anchor: BadgeAnchor;
+  side: BadgeSide;
+}
+
+// 配置結果（枠から離して置いた場合は枠の角への引き出し線）
+export interface BadgePlacement {
+  left: number;
+  top: number;
+  leader: { x1: number; y1: number; x2: number; y2: number } | null;
+}
+
+// バッジがはみ出してはいけない範囲
+export interface LayoutBounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+type Corner = Exclude<BadgeAnchor, 'auto'>;
+
+const CORNERS: Corner[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+const SIDES: BadgeSide[] = ['edge', 'outside', 'inside'];
+
+// 枠から離して置く場合の探索（1段ごとにバッジの高さ + 間隔ずつ離す）
+const BADGE_GAP = 4;
+const MAX_DISPLACEMENT_STEPS = 6;
+const DISPLACEMENT_DIRECTIONS: [number, number][] = [
+  [0, -1], [-1, 0], [1, 0], [0, 1], [-1, -1], [1, -1], [-1, 1], [1, 1],
+];
+
+// 枠の角の座標
+function getCornerPoint(frame: LayoutRect, corner: Corner): { x: number; y: number } {
+  return {
+    x: corner.endsWith('left') ? frame.left : frame.left + frame.width,
+    y: corner.startsWith('top') ? frame.top : frame.top + frame.height,
+  };
+}
+
+// 角と置き方から決まるバッジの矩形
+function getAnchoredRect(item: BadgeLayoutItem, corner: Corner, side: BadgeSide): LayoutRect {
+  const { x, y } = getCornerPoint(item.frame, corner);
+  const isLeft = corner.endsWith('left');
+  const isTop = corner.startsWith('top');
+  const { width, height } = item;
+
+  if (side === 'edge') {
+    // 角にバッジの中心を合わせる
+    return { left: x - width / 2, top: y - height / 2, width, height };
+  }
+  if (side === 'outside') {
+    // 枠の上（下）に、枠の左端（右端）と揃えて置く
+    return { left: isLeft ? x : x - width, top: isTop ? y - height : y, width, height };
+  }
+  // 枠線の内側の角に置く
+  const inset = item.inset;
+  return {
+    left: isLeft ? x + inset : x - inset - width,
+    top: isTop ? y + inset : y - inset - height,
+    width,
+    height,
+  };
+}
+
+function overlaps(a: LayoutRect, b: LayoutRect): boolean {
+  return a.left < b.left + b.width && b.left < a.left + a.width
+    && a.top < b.top + b.height && b.top < a.top + a.height;
+}
+
+function fitsIn(rect: LayoutRect, bounds: LayoutBounds): boolean {
+  return rect.left >= bounds.left && rect.top >= bounds.top
+    && rect.left + rect.width <= bounds.right && rect.top + rect.height <= bounds.bottom;
+}
+
+// バッジの中心から最も近い枠の角への引き出し線
+function getLeader(item: BadgeLayoutItem, rect: LayoutRect): BadgePlacement['leader'] {
+  const x1 = rect.left + rect.width / 2;
+  const y1 = rect.top + rect.height / 2;
+  const nearest = CORNERS
+    .map(corner => getCornerPoint(item.frame, corner))
+    .reduce((best, p) => Math.hypot(p.x - x1, p.y - y1) < Math.hypot(best.x - x1, best.y - y1) ? p : best);
+  return { x1, y1, x2: nearest.x, y2: nearest.y };
+}
+
+// 自動配置のバッジの位置を探す（見つからなければnull）
+// 指定の置き方で4つの角 → 他の置き方で4つの角 → 枠から離した位置（引き出し線付き）の順に試す
+function findAutoPlacement(item: BadgeLayoutItem, placed: LayoutRect[], bounds: LayoutBounds): BadgePlacement | null {
+  const isFree = (rect: LayoutRect) => fitsIn(rect, bounds) && !placed.some(p => overlaps(rect, p));
+
+  const sides = [item.side, ...SIDES.filter(s => s !== item.side)];
+  for (const side of sides) {
+    for (const corner of CORNERS) {
+      const rect = getAnchoredRect(item, corner, side);
+      if (isFree(rect)) {
+        return { left: rect.left, top: rect.top, leader: null };
+      }
+    }
+  }
+
+  // 枠の中身を隠さないよう、離して置く場合は枠とも重ならない位置に限る
+  const base = getAnchoredRect(item, 'top-left', item.side);
+  const step = item.height + BADGE_GAP;
+  for (let i = 1; i <= MAX_DISPLACEMENT_STEPS; i++) {
+    for (const [dx, dy] of DISPLACEMENT_DIRECTIONS) {
+      const rect = { ...base, left: base.left + dx * step * i, top: base.top + dy * step * i };
+      if (isFree(rect) && !overlaps(rect, item.frame)) {
+        return { left: rect.left, top: rect.top, leader: getLeader(item, rect) };
+      }
+    }
+  }
+  return null;
+}
+
+// 全バッジの位置を計算
+// 角を指定したバッジは指定どおりに置き、自動配置のバッジは一覧の順に他のバッジと重ならない位置を探す
+export function layoutBadges(items: BadgeLayoutItem[], bounds: LayoutBounds): Map<string, BadgePlacement> {
+  const placements = new Map<string, BadgePlacement>();
+  const placed: LayoutRect[] = [];
+
+  items.forEach(item => {
+    if (item.anchor === 'auto') return;
+    const rect = getAnchoredRect(item, item.anchor, item.side);
+    placements.set(item.id, { left: rect.left, top: rect.top, leader: null });
+    placed.push(rect);
+  });
+
+  items.forEach(item => {
+    if (item.anchor !== 'auto') return;
+    // 置き場所がなければ左上に置く（重なりは許容）
+    const placement = findAutoPlacement(item, placed, bounds) ?? {
+      ...getAnchoredRect(item, 'top-left', item.side),
+      leader: null,
+    };
+    placements.set(item.id, { left: placement.left, top: placement.top, leader: placement.leader });
+    placed.push({ left: placement.left, top: placement.top, width: item.width, height: item.height });
+  });
+
+  return placements;
+}
@@ -0,0 +1,206 @@
+// シャドウルートと同一オリジンのiframeをまたいだDOM操作
+// 要素はドキュメントまたはシャドウルート（スコープ）に属し、スコープの境界の外側にはホスト要素（シャドウホスト・iframe）がある
+
+// スコープの境界の種類
+export type ScopeBoundary = 'shadow' | 'frame';
+
+// 境界をまたいだセレクタ（boundaries[i] は segments[i] と segments[i + 1] の間の境界）
+// 例: "x-app >>shadow>> iframe#form >>frame>> input#email"
+export interface ScopedSelector {
+  segments: string[];
+  boundaries: ScopeBoundary[];
+}
+
+// セレクタ中の境界の表記（CSSセレクタには現れない書き方にする）
+const BOUNDARY_TOKENS: Record<ScopeBoundary, string> = {
+  shadow: ' >>shadow>> ',
+  frame: ' >>frame>> ',
+};
+const BOUNDARY_PATTERN = /\s*>>(shadow|frame)>>\s*/;
+
+// 別のウィンドウ（iframe）の要素も含めてHTMLElementかどうか
+export function isHTMLElement(node: unknown): node is HTMLElement {
+  if (node instanceof HTMLElement) return true;
+  const view = (node as Node | null)?.ownerDocument?.defaultView as (Window & typeof globalThis) | null | undefined;
+  return !!view && node instanceof view.HTMLElement;
+}
+
+// イベントの実際の対象（開いたシャドウルート内の要素まで含む）
+export function getEventTarget(e: Event): HTMLElement | null {
+  return (e.composedPath().find(isHTMLElement) as HTMLElement | undefined) ?? null;
+}
+
+// iframe内のドキュメント（別オリジンなど読めない場合はnull）
+export function getFrameDocument(frame: Element): Document | null {
+  if (frame.tagName !== 'IFRAME' && frame.tagName !== 'FRAME') return null;
+  try {
+    return (frame as HTMLIFrameElement).contentDocument;
+  } catch {
+    return null;
+  }
+}
+
+// ドキュメントを表示しているiframe要素（トップのドキュメントはnull）
+function getFrameElement(doc: Document): HTMLElement | null {
+  const view = doc.defaultView;
+  if (!view || view === window) return null;
+  try {
+    return view.frameElement as HTMLElement | null;
+  } catch {
+    return null;
+  }
+}
+
+// 要素が属するスコープの外側のホスト要素と境界の種類（トップのドキュメントの要素はnull）
+export function getScopeHost(element: Element): { host: HTMLElement; boundary: ScopeBoundary } | null {
+  const root = element.getRootNode();
+  if (root.nodeType === Node.DOCUMENT_FRAGMENT_NODE && (root as ShadowRoot).host) {
+    return { host: (root as ShadowRoot).host as HTMLElement, boundary: 'shadow' };
+  }
+  if (root.nodeType === Node.DOCUMENT_NODE) {
+    const frame = getFrameElement(root as Document);
+    return frame ? { host: frame, boundary: 'frame' } : null;
+  }
+  return null;
+}
+
+// 境界をまたいだ親要素（シャドウルートの最上位の要素はホスト、iframeのhtml要素はiframe）
+export function getComposedParent(element: Element): HTMLElement | null {
+  return element.parentElement ?? getScopeHost(element)?.host ?? null;
+}
+
+// 境界をまたいでancestorがelementを含むか（element自身も含む）
+export function containsComposed(ancestor: Element, element: Element): boolean {
+  let current: Element | null = element;
+  while (current) {
+    if (current === ancestor) return true;
+    current = getComposedParent(current);
+  }
+  return false;
+}
+
+// ドキュメントの表示領域の左上がトップのウィンドウの表示領域のどこにあるか（iframeの位置を足していく）
+function getFrameOffset(doc: Document): { top: number; left: number } {
+  let top = 0;
+  let left = 0;
+  let frame = getFrameElement(doc);
+  while (frame) {
+    // iframeの中身は枠線とpaddingの内側から始まる
+    const frameRect = frame.getBoundingClientRect();
+    const style = frame.ownerDocument.defaultView?.getComputedStyle(frame);
+    top += frameRect.top + frame.clientTop + (parseFloat(style?.paddingTop ?? '') || 0);
+    left += frameRect.left + frame.clientLeft + (parseFloat(style?.paddingLeft ?? '') || 0);
+    frame = getFrameElement(frame.ownerDocument);
+  }
+  return { top, left };
+}
+
+// トップのウィンドウの表示領域を基準にした位置とサイズ（iframe内の要素はiframeの位置を足す）
+export function getViewportRect(element: Element): { top: number; left: number; width: number; height: number } {
+  const rect = element.getBoundingClientRect();
+  const offset = getFrameOffset(element.ownerDocument);
+  return { top: rect.top + offset.top, left: rect.left + offset.left, width: rect.width, height: rect.height };
+}
+
+// マウスイベントの位置をページ座標（トップのドキュメント基準）で取得（iframe内のイベントはiframeの位置を足す）
+export function getEventPagePoint(e: MouseEvent): { x: number; y: number } {
+  const offset = e.view && e.view !== window ? getFrameOffset(e.view.document) : { top: 0, left: 0 };
+  return { x: e.clientX + offset.left + window.scrollX, y: e.clientY + offset.top + window.scrollY };
+}
+
+// ページ座標（トップのドキュメント基準）の位置とサイズ
+export function getPageRect(element: Element): { top: number; left: number; width: number; height: number } {
+  const rect = getViewportRect(element);
+  return { ...rect, top: rect.top + window.scrollY, left: rect.left + window.scrollX };
+}
+
+// 境界をまたいだセレクタを文字列にする
+export function formatScopedSelector(scoped: ScopedSelector): string {
+  return scoped.segments.reduce((text, segment, i) => i === 0
+    ? segment
+    : `${text}${BOUNDARY_TOKENS[scoped.boundaries[i - 1]]}${segment}`, '');
+}
+
+// セレクタを境界ごとに分割（境界の表記がなければ1つのセグメント）
+export function parseScopedSelector(selector: string): ScopedSelector {
+  // 分割パターンのキャプチャにより、セグメントと境界の種類が交互に並ぶ
+  const parts = selector.split(BOUNDARY_PATTERN);
+  return {
+    segments: parts.filter((_, i) => i % 2 === 0),
+    boundaries: parts.filter((_, i) => i % 2 === 1) as ScopeBoundary[],
+  };
+}
+
+// スコープ内をセレクタで検索（不正なセレクタは無視）
+export function queryAllIn(root: ParentNode, selector: string): HTMLElement[] {
+  if (!selector) return [];
+  try {
+    return Array.from(root.querySelectorAll(selector)).filter(isHTMLElement);
+  } catch {
+    return [];
+  }
+}
+
+// 最後のセグメントを検索するスコープ（境界の手前のセレクタに一致するホストの中身）
+// queryはスコープ内でホストを探す関数（XPathの場合に差し替える）
+export function resolveScopeRoots(
+  scoped: ScopedSelector,
+  query: (root: Document | ShadowRoot, selector: string) => HTMLElement[] = queryAllIn
+): (Document | ShadowRoot)[] {
+  let roots: (Document | ShadowRoot)[] = [document];
+  scoped.boundaries.forEach((boundary, i) => {
+    roots = roots
+      .flatMap(root => query(root, scoped.segments[i]))
+      .flatMap(host => {
+        const inner = boundary === 'shadow' ? host.shadowRoot : getFrameDocument(host);
+        return inner ? [inner] : [];
+      });
+  });
+  return roots;
+}
+
+// 境界をまたいだセレクタで要素を検索
+export function queryScopedAll(selector: string): HTMLElement[] {
+  if (!selector) return [];
+  const scoped = parseScopedSelector(selector);
+  const last = scoped.segments[scoped.segments.length - 1];
+  return resolveScopeRoots(scoped).flatMap(root => queryAllIn(root, last));
+}
+
+// 要素が境界をまたいだセレクタに一致するか（ホストの並びと境界の種類も一致する必要がある）
+export function matchesScopedSelector(element: Element, selector: string): boolean {
+  if (!selector) return false;
+  const { segments, boundaries } = parseScopedSelector(selector);
+  let current: Element = element;
+  for (let i = segments.length - 1; i >= 0; i--) {
+    try {
+      if (!current.matches(segments[i])) return false;
+    } catch {
+      return false;
+    }
+    const scope = getScopeHost(current);
+    if (i === 0) return scope === null;
+    if (!scope || scope.boundary !== boundaries[i - 1]) return false;
+    current = scope.host;
+  }
+  return false;
+}
+
+// 同一オリジンのiframe内のドキュメントをすべて取得（入れ子のiframeやシャドウルート内のiframeも含む）
+export function collectFrameDocuments(doc: Document): Document[] {
+  const docs: Document[] = [];
+  const visit = (root: Document | ShadowRoot) => {
+    root.querySelectorAll('*').forEach(el => {
+      if (el.shadowRoot) {
+        visit(el.shadowRoot);
+      }
+      const frameDoc = getFrameDocument(el);
+      if (frameDoc && !docs.includes(frameDoc)) {
+        docs.push(frameDoc);
+        visit(frameDoc);
+      }
+    });
+  };
+  visit(doc);
+  return docs;
+}
@@ -0,0 +1,119 @@
+import { isHTMLElement, getComposedParent, getFrameDocument } from './dom-scope';
+import { isUiHost } from './ui-root';
+
+// ホバー中の要素からキーボードでたどる方向
+export type WalkDirection = 'parent' | 'child' | 'previous' | 'next';
+
+// 候補にしない要素（画面に表示されないもの）
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'LINK', 'META', 'TEMPLATE', 'NOSCRIPT', 'BR', 'WBR']);
+
+// パンくずに表示する祖先の数とクラスの数
+const BREADCRUMB_DEPTH = 3;
+const MAX_CLASSES = 2;
+
+// たどる候補にできる要素か（拡張機能のUIや大きさのない要素は飛ばす）
+function isWalkable(element: Element | null): boolean {
+  if (!isHTMLElement(element) || SKIPPED_TAGS.has(element.tagName)) {
+    return false;
+  }
+  if (isUiHost(element)) {
+    return false;
+  }
+  const rect = element.getBoundingClientRect();
+  return rect.width > 0 || rect.height > 0;
+}
+
+// ドキュメントのbody・html要素か（iframe内のものも含む）
+function isDocumentRoot(element: Element): boolean {
+  return element === element.ownerDocument.body || element === element.ownerDocument.documentElement;
+}
+
+// <slot>を割り当てられた要素（割り当てがなければ既定の内容）に置き換える
+// slot自体は大きさを持たないため、そのままではシャドウツリーに差し込まれたページの要素にたどり着けない
+function expandSlots(elements: Element[]): Element[] {
+  return elements.flatMap(element => element.tagName === 'SLOT'
+    ? (element as HTMLSlotElement).assignedElements({ flatten: true })
+    : [element]);
+}
+
+// 子要素の一覧（シャドウルートを持つ要素は表示されているシャドウツリー、iframeは中のbody）
+function getComposedChildren(element: HTMLElement): Element[] {
+  if (element.shadowRoot) {
+    return expandSlots(Array.from(element.shadowRoot.children));
+  }
+  const frameDoc = getFrameDocument(element);
+  if (frameDoc?.body) {
+    return Array.from(frameDoc.body.children);
+  }
+  return expandSlots(Array.from(element.children));
+}
+
+// 兄弟を指定方向にたどって最初の候補を探す
+function findSibling(element: Element, direction: 'previous' | 'next'): HTMLElement | null {
+  let sibling = direction === 'previous' ? element.previousElementSibling : element.nextElementSibling;
+  while (sibling && !isWalkable(sibling)) {
+    sibling = direction === 'previous' ? sibling.previousElementSibling : sibling.nextElementSibling;
+  }
+  return sibling as HTMLElement | null;
+}
+
+// 指定方向の次の候補（なければnull）
+// シャドウルートやiframeの境界はまたいでたどる。boundaryを指定した場合はその内側（boundary自身は含まない）から出ない
+export function walkElement(current: HTMLElement, direction: WalkDirection, boundary: Element | null): HTMLElement | null {
+  // boundary自身からは子にだけ進める（親や兄弟は範囲の外）
+  if (current === boundary && direction !== 'child') return null;
+
+  if (direction === 'parent') {
+    // display: contents など大きさのない親や、iframe内のbody・htmlは飛ばす
+    let parent = getComposedParent(current);
+    while (parent && parent !== boundary) {
+      if (isDocumentRoot(parent)) {
+        // トップのドキュメントのbody・htmlより上には行かない
+        if (parent.ownerDocument === document) return null;
+      } else if (isWalkable(parent)) {
+        return parent;
+      }
+      parent = getComposedParent(parent);
+    }
+    return null;
+  }
+
+  if (direction === 'child') {
+    return (getComposedChildren(current).find(isWalkable) as HTMLElement | undefined) ?? null;
+  }
+
+  return findSibling(current, direction);
+}
+
+// 要素の短い表記（例: div#main.container.wide）
+export function describeElement(element: HTMLElement): string {
+  let text = element.tagName.toLowerCase();
+  if (element.id) {
+    text += `#${element.id}`;
+  }
+  if (typeof element.className === 'string') {
+    const classes = element.className
+      .split(/\s+/)
+      .filter(c => c && !c.startsWith('wdh-'))
+      .slice(0, MAX_CLASSES);
+    if (classes.length > 0) {
+      text += `.${classes.join('.')}`;
+    }
+  }
+  return text;
+}
+
+// 祖先から要素までのパンくず（近い祖先から最大BREADCRUMB_DEPTH個、最後が要素自身）
+export function getElementBreadcrumb(element: HTMLElement): string[] {
+  const crumbs = [describeElement(element)];
+  let parent = getComposedParent(element);
+  while (parent && crumbs.length <= BREADCRUMB_DEPTH) {
+    if (!isDocumentRoot(parent)) {
+      crumbs.unshift(describeElement(parent));
+    } else if (parent.ownerDocument === document) {
+      break;
+    }
+    parent = getComposedParent(parent);
+  }
+  return crumbs;
+}
@@ -0,0 +1,118 @@
+// 注釈を付けた要素の移動・サイズ変更と、ページの要素の追加・削除を監視する
+// アコーディオンの開閉、カルーセルの切り替え、遅れて読み込まれるコンテンツなど、スクロールやリサイズを伴わない変化に追従するため
+
+export interface ElementWatcherHandlers {
+  // 要素の位置やサイズが変わった可能性がある（変化のたびに呼ぶため、呼ばれた側で更新をまとめる）
+  onLayout: () => void;
+  // 要素が追加された（変化が落ち着いてから、その間に追加されてページに残っている要素を渡して呼ぶ。再表示された要素の付け直し用）
+  onNodesAdded: (addedElements: Element[]) => void;
+  // 監視対象から除くノード（拡張機能のUIなど）
+  ignore: (node: Node) => boolean;
+}
+
+export interface ElementWatcher {
+  observe: (element: HTMLElement) => void;
+  unobserve: (element: HTMLElement) => void;
+  disconnect: () => void;
+}
+
+// 要素の追加が続いている間は付け直しを待つ時間（ms）
+const NODES_ADDED_DELAY = 300;
+
+// レイアウトに影響しうる属性（開閉やスタイルの切り替え）
+const OBSERVED_ATTRIBUTES = ['style', 'class', 'hidden', 'open'];
+
+// 要素の監視を作成
+export function createElementWatcher(handlers: ElementWatcherHandlers): ElementWatcher {
+  let addedTimer: ReturnType<typeof setTimeout> | null = null;
+  // 付け直しの候補を探す範囲として、前回の呼び出し以降に追加された要素を記録
+  const addedElements = new Set<Element>();
+  // 監視中のスコープ（ドキュメントのbody、シャドウルート）
+  const observedRoots = new Set<Node>();
+
+  const scheduleNodesAdded = () => {
+    if (addedTimer !== null) {
+      clearTimeout(addedTimer);
+    }
+    addedTimer = setTimeout(() => {
+      addedTimer = null;
+      // 既に削除された要素と、他の追加された要素の子孫は除く（子孫はその祖先の範囲で探される）
+      const roots = [...addedElements].filter(element => element.isConnected);
+      addedElements.clear();
+      handlers.onNodesAdded(roots.filter(element => !roots.some(other => other !== element && other.contains(element))));
+    }, NODES_ADDED_DELAY);
+  };
+
+  const resizeObserver = new ResizeObserver(() => handlers.onLayout());
+
+  const mutationObserver = new MutationObserver(records => {
+    let changed = false;
+    let added = false;
+    records.forEach(record => {
+      if (handlers.ignore(record.target)) return;
+      if (record.type === 'attributes') {
+        changed = true;
+        return;
+      }
+      const addedNodes = [...record.addedNodes].filter(node => !handlers.ignore(node));
+      const removedNodes = [...record.removedNodes].filter(node => !handlers.ignore(node));
+      if (addedNodes.length === 0 && removedNodes.length === 0) return;
+      changed = true;
+      addedNodes.forEach(node => {
+        if (node.nodeType !== Node.ELEMENT_NODE) return;
+        addedElements.add(node as Element);
+        added = true;
+      });
+    });
+    if (changed) {
+      handlers.onLayout();
+    }
+    if (added) {
+      scheduleNodesAdded();
+    }
+  });
+
+  // CSSのトランジションやアニメーションでの移動は属性の変化を伴わないため、終了時に位置を合わせ直す
+  const handleAnimationEnd = () => handlers.onLayout();
+  document.addEventListener('transitionend', handleAnimationEnd, true);
+  document.addEventListener('animationend', handleAnimationEnd, true);
+
+  // スコープ（ドキュメントはbody、シャドウルートはそのもの）以下の変化を監視
+  const observeRoot = (root: Node) => {
+    const target = root.nodeType === Node.DOCUMENT_NODE ? (root as Document).body : root;
+    if (!target || observedRoots.has(target)) return;
+    observedRoots.add(target);
+    mutationObserver.observe(target, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      attributeFilter: OBSERVED_ATTRIBUTES,
+    });
+  };
+
+  // 見つからない要素が後から読み込まれる場合に備え、注釈がなくてもページ全体は監視する
+  observeRoot(document);
+
+  return {
+    observe: (element) => {
+      resizeObserver.observe(element);
+      // 要素が属するスコープ（シャドウルートやiframe内のドキュメント）の変化も監視する
+      observeRoot(element.getRootNode());
+    },
+    unobserve: (element) => {
+      resizeObserver.unobserve(element);
+    },
+    disconnect: () => {
+      resizeObserver.disconnect();
+      mutationObserver.disconnect();
+      observedRoots.clear();
+      addedElements.clear();
+      document.removeEventListener('transitionend', handleAnimationEnd, true);
+      document.removeEventListener('animationend', handleAnimationEnd, true);
+      if (addedTimer !== null) {
+        clearTimeout(addedTimer);
+        addedTimer = null;
+      }
+    },
+  };
+}
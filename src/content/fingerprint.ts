@@ -0,0 +1,350 @@
+import type { ElementFingerprint, ElementMatch, SelectedElement } from '../types';
+import type { ScopeBoundary } from './dom-scope';
+import {
+  isHTMLElement,
+  getScopeHost,
+  getPageRect,
+  formatScopedSelector,
+  parseScopedSelector,
+  resolveScopeRoots,
+  queryAllIn,
+  queryScopedAll,
+  matchesScopedSelector,
+} from './dom-scope';
+import { isUiHost } from './ui-root';
+
+// 一致度の閾値（これ以上なら一致、未満なら不確か、MISSING未満は見つからない扱い）
+const CONFIDENCE_OK = 0.7;
+const CONFIDENCE_MISSING = 0.4;
+
+// テキストの手がかりとして保存する最大文字数
+const TEXT_SNIPPET_LENGTH = 80;
+
+// 同じタグの要素を総当たりで調べるときの上限
+const MAX_TAG_CANDIDATES = 1000;
+
+// テスト用属性（上から優先）
+const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-cy'];
+
+// CSSクラス名をエスケープ（Tailwindなどの特殊文字対応）
+function escapeClassName(className: string): string {
+  // CSS.escapeが使えれば使用、なければ手動エスケープ
+  if (typeof CSS !== 'undefined' && CSS.escape) {
+    return CSS.escape(className);
+  }
+  // 手動エスケープ（数字開始や特殊文字をエスケープ）
+  return className.replace(/([^\w-])/g, '\\$1').replace(/^(\d)/, '\\3$1 ');
+}
+
+// 属性セレクタ用に値をエスケープ
+function escapeAttributeValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+}
+
+// bodyから要素までのCSSセレクタの各階層を取得（シャドウルート内はシャドウルートの直下から）
+function getSelectorPath(element: HTMLElement): string[] {
+  const path: string[] = [];
+  let current: HTMLElement | null = element;
+
+  while (current && current !== current.ownerDocument.body) {
+    const tagName = current.tagName;
+    let selector = tagName.toLowerCase();
+
+    if (current.className && typeof current.className === 'string') {
+      const classes = current.className
+        .split(' ')
+        .filter(c => c && !c.startsWith('wdh-'))
+        .slice(0, 2);
+      if (classes.length > 0) {
+        // 各クラス名をエスケープ
+        const escapedClasses = classes.map(c => escapeClassName(c));
+        selector += `.${escapedClasses.join('.')}`;
+      }
+    }
+
+    // 兄弟要素の中での位置を追加して一意性を高める
+    const parent: HTMLElement | null = current.parentElement;
+    if (parent) {
+      const children: HTMLCollection = parent.children;
+      let sameTagCount = 0;
+      let position = 0;
+      for (let i = 0; i < children.length; i++) {
+        if (children[i].tagName === tagName) {
+          sameTagCount++;
+          if (children[i] === current) {
+            position = sameTagCount;
+          }
+        }
+      }
+      if (sameTagCount > 1) {
+        selector += `:nth-of-type(${position})`;
+      }
+    }
+
+    path.unshift(selector);
+    current = current.parentElement;
+  }
+
+  return path;
+}
+
+// 要素からトップのドキュメントまで、スコープごとのセレクタをつないで境界をまたいだセレクタにする
+// toSegmentはスコープ内での要素のセレクタ（isDocumentはスコープがドキュメントかどうか）
+function buildScopedSelector(element: HTMLElement, toSegment: (el: HTMLElement, isDocument: boolean) => string): string {
+  const segments: string[] = [];
+  const boundaries: ScopeBoundary[] = [];
+  let current: HTMLElement | null = element;
+  while (current) {
+    const scope = getScopeHost(current);
+    segments.unshift(toSegment(current, scope?.boundary !== 'shadow'));
+    if (scope) {
+      boundaries.unshift(scope.boundary);
+    }
+    current = scope?.host ?? null;
+  }
+  return formatScopedSelector({ segments, boundaries });
+}
+
+// スコープ内での短いセレクタ
+function getLocalSelector(element: HTMLElement): string {
+  if (element.id) {
+    // IDもエスケープが必要な場合がある
+    return `#${escapeClassName(element.id)}`;
+  }
+  return getSelectorPath(element).slice(-4).join(' > ');
+}
+
+// CSSセレクタを生成（表示や仕様表用の短いセレクタ）
+// シャドウルートやiframe内の要素は "x-app >>shadow>> #email" のように境界をまたいだ形式
+export function getSelector(element: HTMLElement): string {
+  return buildScopedSelector(element, getLocalSelector);
+}
+
+// スコープ内でのXPathを生成（シャドウルート内はシャドウルートからの相対パス）
+function getLocalXPath(element: HTMLElement, isDocument: boolean): string {
+  const segments: string[] = [];
+  let current: Element | null = element;
+
+  while (current) {
+    const node: Element = current;
+    const tagName = node.tagName.toLowerCase();
+    // 同じタグの兄弟要素がある場合のみ位置を付ける
+    const sameTagSiblings = node.parentElement
+      ? Array.from(node.parentElement.children).filter(sibling => sibling.tagName === node.tagName)
+      : [];
+    segments.unshift(sameTagSiblings.length > 1 ? `${tagName}[${sameTagSiblings.indexOf(node) + 1}]` : tagName);
+    current = node.parentElement;
+  }
+
+  return `${isDocument ? '' : '.'}/${segments.join('/')}`;
+}
+
+// テキスト内容の先頭部分を取得（空白を正規化）
+function getTextSnippet(element: HTMLElement): string {
+  return (element.textContent || '').replace(/\s+/g, ' ').trim().slice(0, TEXT_SNIPPET_LENGTH);
+}
+
+// テスト用属性の値を取得
+function getTestId(element: HTMLElement): string {
+  for (const attr of TEST_ID_ATTRIBUTES) {
+    const value = element.getAttribute(attr);
+    if (value) return value;
+  }
+  return '';
+}
+
+// 要素の手がかりを作成
+export function createFingerprint(element: HTMLElement): ElementFingerprint {
+  return {
+    elementId: element.id,
+    testId: getTestId(element),
+    ariaLabel: element.getAttribute('aria-label') || '',
+    text: getTextSnippet(element),
+    path: buildScopedSelector(element, (el, isDocument) => [...(isDocument ? ['body'] : []), ...getSelectorPath(el)].join(' > ')),
+    xpath: buildScopedSelector(element, getLocalXPath),
+  };
+}
+
+// 手がかりなし（範囲注釈など要素に紐付かない場合）
+export function createEmptyFingerprint(): ElementFingerprint {
+  return {
+    elementId: '',
+    testId: '',
+    ariaLabel: '',
+    text: '',
+    path: '',
+    xpath: '',
+  };
+}
+
+// スコープ内をXPathで検索（不正なXPathは無視）
+function evaluateXPathIn(root: Document | ShadowRoot, xpath: string): HTMLElement[] {
+  if (!xpath) return [];
+  try {
+    // ドキュメント自身のownerDocumentはnull
+    const doc = root.ownerDocument ?? root as Document;
+    const result = doc.evaluate(xpath, root, null, XPathResult.FIRST_ORDERED_NODE_TYPE, null);
+    return isHTMLElement(result.singleNodeValue) ? [result.singleNodeValue] : [];
+  } catch {
+    return [];
+  }
+}
+
+// 境界をまたいだXPathで要素を探す
+function queryXPath(xpath: string): HTMLElement | null {
+  if (!xpath) return null;
+  const scoped = parseScopedSelector(xpath);
+  const last = scoped.segments[scoped.segments.length - 1];
+  return resolveScopeRoots(scoped, evaluateXPathIn)
+    .flatMap(root => evaluateXPathIn(root, last))[0] ?? null;
+}
+
+// 候補要素が保存された手がかりにどれだけ一致するかを計算（0〜1）
+function scoreCandidate(
+  candidate: HTMLElement,
+  saved: SelectedElement,
+  isXPathMatch: (candidate: HTMLElement) => boolean
+): number {
+  const fp = saved.fingerprint;
+  let score = 0;
+  let max = 0;
+
+  // 手がかりが保存されている項目だけを配点に含める
+  const check = (weight: number, available: boolean, matched: number) => {
+    if (!available) return;
+    max += weight;
+    score += weight * matched;
+  };
+
+  check(10, true, candidate.tagName.toLowerCase() === saved.tagName ? 1 : 0);
+  check(30, !!fp.elementId, candidate.id === fp.elementId ? 1 : 0);
+  check(30, !!fp.testId, getTestId(candidate) === fp.testId ? 1 : 0);
+  check(15, !!fp.ariaLabel, candidate.getAttribute('aria-label') === fp.ariaLabel ? 1 : 0);
+
+  if (fp.text) {
+    const text = getTextSnippet(candidate);
+    let textScore = 0;
+    if (text === fp.text) {
+      textScore = 1;
+    } else if (text && (text.startsWith(fp.text.slice(0, 20)) || fp.text.startsWith(text.slice(0, 20)))) {
+      textScore = 0.5;
+    }
+    check(20, true, textScore);
+  }
+
+  check(15, !!fp.path, matchesScopedSelector(candidate, fp.path) ? 1 : 0);
+  check(15, !!fp.xpath, isXPathMatch(candidate) ? 1 : 0);
+  check(10, !!saved.selector, matchesScopedSelector(candidate, saved.selector) ? 1 : 0);
+
+  // 最後に確認できた位置とサイズの近さ
+  const rect = getPageRect(candidate);
+  const distance = Math.abs(rect.top - saved.rect.top)
+    + Math.abs(rect.left - saved.rect.left)
+    + Math.abs(rect.width - saved.rect.width)
+    + Math.abs(rect.height - saved.rect.height);
+  check(10, true, Math.max(0, 1 - distance / 400));
+
+  return max > 0 ? score / max : 0;
+}
+
+// 一致度から状態を判定
+function toMatch(confidence: number): ElementMatch {
+  let status: ElementMatch['status'];
+  if (confidence >= CONFIDENCE_OK) {
+    status = 'ok';
+  } else if (confidence >= CONFIDENCE_MISSING) {
+    status = 'uncertain';
+  } else {
+    status = 'missing';
+  }
+  return { status, confidence };
+}
+
+// 要素とその子孫からセレクタに一致する要素を検索
+function queryAllWithin(root: Element, selector: string): HTMLElement[] {
+  const matches = queryAllIn(root, selector);
+  try {
+    return isHTMLElement(root) && root.matches(selector) ? [root, ...matches] : matches;
+  } catch {
+    return matches;
+  }
+}
+
+// 境界をまたいだセレクタの最後のセグメント
+function getLastSegment(selector: string): string {
+  const { segments } = parseScopedSelector(selector);
+  return segments[segments.length - 1];
+}
+
+// 保存された要素に最もよく一致するDOM要素を探す（excludeに含まれる要素は候補から除く）
+// withinを指定した場合は、その要素とその子孫だけを検索する（追加された要素からの付け直し用。ドキュメント全体は検索しない）
+export function findBestMatch(
+  saved: SelectedElement,
+  exclude: Set<HTMLElement>,
+  within?: Element[]
+): { element: HTMLElement | null; match: ElementMatch } {
+  const fp = saved.fingerprint;
+  const candidates = new Set<HTMLElement>();
+  const addAll = (elements: (HTMLElement | null)[]) => {
+    elements.forEach(el => {
+      if (!el || exclude.has(el) || isUiHost(el)) return;
+      candidates.add(el);
+    });
+  };
+
+  // 属性での検索は、保存時と同じシャドウルート・iframeの中で行う
+  // withinの中では境界をまたいだセレクタを最後のセグメントで検索し、ホストの並びは一致するかで確かめる
+  let queryAll: (selector: string) => HTMLElement[];
+  let queryScoped: (selector: string) => HTMLElement[];
+  let isXPathMatch: (candidate: HTMLElement) => boolean;
+  let xpathMatch: HTMLElement | null = null;
+  if (within) {
+    queryAll = selector => within.flatMap(root => queryAllWithin(root, selector));
+    queryScoped = selector => selector
+      ? queryAll(getLastSegment(selector)).filter(el => matchesScopedSelector(el, selector))
+      : [];
+    isXPathMatch = candidate => buildScopedSelector(candidate, getLocalXPath) === fp.xpath;
+  } else {
+    const roots = resolveScopeRoots(parseScopedSelector(fp.path || saved.selector));
+    queryAll = selector => roots.flatMap(root => queryAllIn(root, selector));
+    queryScoped = queryScopedAll;
+    xpathMatch = queryXPath(fp.xpath);
+    isXPathMatch = candidate => candidate === xpathMatch;
+  }
+
+  // 手がかりごとに候補を集める
+  if (fp.elementId) addAll(queryAll(`[id="${escapeAttributeValue(fp.elementId)}"]`));
+  if (fp.testId) {
+    addAll(TEST_ID_ATTRIBUTES.flatMap(attr => queryAll(`[${attr}="${escapeAttributeValue(fp.testId)}"]`)));
+  }
+  if (fp.ariaLabel) addAll(queryAll(`[aria-label="${escapeAttributeValue(fp.ariaLabel)}"]`));
+  addAll(queryScoped(fp.path));
+  addAll(queryScoped(saved.selector));
+  addAll([xpathMatch]);
+
+  let best: HTMLElement | null = null;
+  let bestScore = 0;
+  const evaluate = () => {
+    candidates.forEach(candidate => {
+      const score = scoreCandidate(candidate, saved, isXPathMatch);
+      if (score > bestScore) {
+        best = candidate;
+        bestScore = score;
+      }
+    });
+  };
+  evaluate();
+
+  // 十分な一致がなければ同じタグの要素をテキストなどで総当たり
+  if (bestScore < CONFIDENCE_OK) {
+    candidates.clear();
+    addAll(queryAll(saved.tagName).slice(0, MAX_TAG_CANDIDATES));
+    evaluate();
+  }
+
+  const match = toMatch(bestScore);
+  return {
+    element: match.status === 'missing' ? null : best,
+    match,
+  };
+}
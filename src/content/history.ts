@@ -0,0 +1,89 @@
+import type { EditHistory, SavedState } from '../types';
+import { migrateState } from './schema';
+
+// 保持する履歴の最大数（古いものから破棄）
+const MAX_HISTORY = 50;
+
+// 保存する操作履歴の大きさの上限（JSONの文字数。ストレージの容量を使い切らないよう、超える分は古いものから保存しない）
+const MAX_SAVED_HISTORY_SIZE = 512 * 1024;
+
+// 空の操作履歴を作成
+export function createEditHistory(): EditHistory {
+  return { undo: [], redo: [] };
+}
+
+// 状態が同じかどうか（スナップショットはJSONで保存するため文字列で比較）
+function isSameState(a: SavedState, b: SavedState): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// 変更前の状態を記録（新しい操作をしたらやり直し履歴は破棄）
+export function pushSnapshot(history: EditHistory, snapshot: SavedState): void {
+  history.undo.push(snapshot);
+  if (history.undo.length > MAX_HISTORY) {
+    history.undo.shift();
+  }
+  history.redo = [];
+}
+
+// 戻り先の状態を取り出す（現在と同じ状態は変化がないため読み飛ばす）
+function takeFrom(from: SavedState[], to: SavedState[], current: SavedState): SavedState | null {
+  let snapshot = from.pop();
+  while (snapshot && isSameState(snapshot, current)) {
+    snapshot = from.pop();
+  }
+  if (!snapshot) {
+    return null;
+  }
+  to.push(current);
+  if (to.length > MAX_HISTORY) {
+    to.shift();
+  }
+  return snapshot;
+}
+
+// 元に戻す状態を取り出し、現在の状態をやり直し履歴に積む
+export function takeUndo(history: EditHistory, current: SavedState): SavedState | null {
+  return takeFrom(history.undo, history.redo, current);
+}
+
+// やり直す状態を取り出し、現在の状態を元に戻す履歴に積む
+export function takeRedo(history: EditHistory, current: SavedState): SavedState | null {
+  return takeFrom(history.redo, history.undo, current);
+}
+
+// 保存用の操作履歴（現在に近いスナップショットから上限の大きさまでに絞ったもの）
+export function trimEditHistory(history: EditHistory): EditHistory {
+  let size = 0;
+  const keepRecent = (snapshots: SavedState[]): SavedState[] => {
+    const kept: SavedState[] = [];
+    for (let i = snapshots.length - 1; i >= 0; i--) {
+      size += JSON.stringify(snapshots[i]).length;
+      if (size > MAX_SAVED_HISTORY_SIZE) break;
+      kept.unshift(snapshots[i]);
+    }
+    return kept;
+  };
+  // 元に戻す履歴を優先して残す
+  const undo = keepRecent(history.undo);
+  return { undo, redo: keepRecent(history.redo) };
+}
+
+// 保存された操作履歴を現在の形式に変換（読み込めないスナップショットは捨てる）
+export function restoreEditHistory(raw: unknown): EditHistory {
+  const data = raw as Partial<Record<keyof EditHistory, unknown>> | null;
+  const migrateAll = (snapshots: unknown): SavedState[] => {
+    if (!Array.isArray(snapshots)) return [];
+    return snapshots.flatMap(snapshot => {
+      try {
+        return [migrateState(snapshot)];
+      } catch {
+        return [];
+      }
+    });
+  };
+  return {
+    undo: migrateAll(data?.undo),
+    redo: migrateAll(data?.redo),
+  };
+}
@@ -1,61 +1,321 @@
-import type { SelectedElement, Message, FrameColor } from '../types';
-import { FRAME_COLORS } from '../types';
+import type {
+  SelectedElement,
+  Message,
+  MessageType,
+  FrameColor,
+  LegendPosition,
+  TableFormat,
+  SavedState,
+  AnnotationFile,
+  UrlMatchRules,
+  StateRequest,
+  StateResponse,
+  Shape,
+  ShapeType,
+  EditHistory,
+  ElementMatch,
+  NumberingScheme,
+  NumberingStyle,
+  PaletteColor,
+  StrokeStyle,
+  BadgeAnchor,
+  BadgeSide,
+  CaptureRenderer,
+  CaptureScope,
+  CaptureScopeKind,
+  CaptureOutput,
+} from '../types';
+import {
+  DEFAULT_PALETTE,
+  STROKE_STYLES,
+  FILL_OPACITIES,
+  STROKE_WIDTH_MIN,
+  STROKE_WIDTH_MAX,
+  BADGE_ANCHORS,
+  BADGE_SIDES,
+  LEGEND_POSITIONS,
+  TABLE_FORMATS,
+  CAPTURE_RENDERERS,
+  CAPTURE_SCOPES,
+  DEFAULT_CAPTURE_RENDERER,
+  DEFAULT_URL_MATCH_RULES,
+  SHAPE_TYPES,
+  NUMBERING_STYLES,
+  NUMBERING_SEPARATORS,
+  DEFAULT_NUMBERING_SCHEME,
+} from '../types';
 import html2canvas from 'html2canvas';
-import './styles.css';
+import { renderLegend } from './legend';
+import type { LegendItem } from './legend';
+import { buildSpecRows, toMarkdown, toCsv, toHtmlDocument, toTsv, toClipboardHtml } from './spec-table';
+import { CURRENT_SCHEMA_VERSION, migrateState } from './schema';
+import { getSelector, createFingerprint, createEmptyFingerprint, findBestMatch } from './fingerprint';
+import { createShapeLayer, renderShapeLayer, drawShapesOnCanvas } from './shapes';
+import type { ResolvedShape } from './shapes';
+import { buildLabel, parseLabelNumber, renumberLabels } from './numbering';
+import { createEditHistory, pushSnapshot, takeUndo, takeRedo, restoreEditHistory, trimEditHistory } from './history';
+import { escapeHtml, getTimestamp, downloadBlob, hexToRgba, canvasToBlob, toFileNamePart } from './utils';
+import { layoutBadges } from './badge-layout';
+import { walkElement, getElementBreadcrumb } from './dom-walk';
+import {
+  getEventTarget,
+  containsComposed,
+  getPageRect,
+  getViewportRect,
+  getEventPagePoint,
+  collectFrameDocuments,
+} from './dom-scope';
+import type { WalkDirection } from './dom-walk';
+import type { BadgeLayoutItem, BadgePlacement, LayoutRect } from './badge-layout';
+import { drawAnnotationsOnCanvas } from './annotation-canvas';
+import type { AnnotationDrawing } from './annotation-canvas';
+import { getUiRoot, removeUiRoot, isUiHost, getUiActiveElement } from './ui-root';
+import { createElementWatcher } from './element-watcher';
+import type { ElementWatcher } from './element-watcher';
+import { watchRouteChanges } from './route-watcher';
+import { captureByScrolling } from './native-capture';
+import { createZip } from './zip';
+import type { ZipEntry } from './zip';
+import { createPdf } from './pdf';
+import type { PdfPage } from './pdf';
+import { renderSpecDocumentPages, PAGE_WIDTH_PT, PAGE_HEIGHT_PT } from './spec-document';
+import { createAnnotatedSvg } from './annotation-svg';
 
 // 状態管理
 let isEditing = false;
 let selectedElements: SelectedElement[] = [];
 let nextNumber = 1;
 let hoveredElement: HTMLElement | null = null;
+// マウスが実際に乗っている要素（キーボードで親や兄弟に移った場合はhoveredElementと異なる）
+let pointerElement: HTMLElement | null = null;
+let pickTooltip: HTMLElement | null = null;
+// ツールチップの大きさ（内容を更新したときに測った値）
+let pickTooltipSize = { width: 0, height: 0 };
+// ホバーの枠を表示している要素（選択した直後は候補のまま枠だけ外す）
+let highlightedElement: HTMLElement | null = null;
+// ホバー中の候補とフォーカス中の要素を囲む枠（ページの要素にクラスを付けずオーバーレイとして描く）
+let hoverBox: HTMLElement | null = null;
+let focusBox: HTMLElement | null = null;
+// 編集モード中のページのカーソル（ページの要素にクラスを付けずスタイル要素で指定する）
+let cursorStyle: HTMLStyleElement | null = null;
+
+// ホバー中にキーボードでたどる方向
+const WALK_KEYS: Record<string, WalkDirection> = {
+  ArrowUp: 'parent',
+  ArrowDown: 'child',
+  ArrowLeft: 'previous',
+  ArrowRight: 'next',
+};
 let panel: HTMLElement | null = null;
 let overlayContainer: HTMLElement | null = null;
 
+// 注釈ごとのオーバーレイ（DOMを検索せずに引けるよう、紐付いた要素・枠・バッジ・引き出し線を保持）
+interface OverlayEntry {
+  element: HTMLElement | null; // 範囲注釈はnull
+  frame: HTMLElement;
+  badge: HTMLElement;
+  leader: HTMLElement | null;
+  placement: BadgePlacement | null; // 最後に計算したバッジの配置
+  visible: boolean; // 画面外の注釈は非表示にして位置の書き込みを省く
+  moving: boolean; // スクロールで位置が変わる要素（固定・スティッキー配置など）は画面外でも読み直す
+  written: string; // 最後に書き込んだ位置（変わらなければ書き込まない）
+}
+const overlays = new Map<string, OverlayEntry>();
+
+// スクロールなどで予約した位置の更新（アニメーションフレームごとに最大1回）
+let overlayFrameRequest: number | null = null;
+let overlayFullUpdate = false;
+let overlayDetachCheck = false; // ページの変化があり、削除された要素の確認が必要
+
+// 画面外とみなすまでの余白（px）。バッジや引き出し線は枠の外に出るため広めに取る
+const OFFSCREEN_MARGIN = 200;
+
 // フォーカスモード（サブセクション編集）
-let focusedElementId: string | null = null; // フォーカス中の親要素ID
+let focusedElementId: string | null = null; // フォーカス中の親要素ID（任意の階層）
 let focusedSubNumber = 1; // サブセクションの連番
 
-// localStorageのキー（URLごとに保存）
-function getStorageKey(): string {
+// 描画ツール（region: 要素に紐付かない範囲注釈、capture: 画像を出力する範囲の指定、それ以外は図形）
+type DrawTool = 'region' | 'capture' | ShapeType;
+
+const DRAW_TOOLS: { value: DrawTool; label: string }[] = [
+  { value: 'region', label: '範囲' },
+  ...SHAPE_TYPES,
+];
+
+// ドラッグで注釈や図形を作成する描画モード
+let drawTool: DrawTool | null = null;
+let drawStart: { x: number; y: number } | null = null;
+let drawPreview: HTMLElement | null = null;
+let drawingShape: Shape | null = null; // 描画中の図形
+
+// 図形（矢印・直線・テキスト吹き出し）
+let shapes: Shape[] = [];
+let shapeLayer: SVGSVGElement | null = null;
+let shapeDrag: { id: string; handle: 'start' | 'end' | 'body'; lastX: number; lastY: number; moved: boolean } | null = null;
+
+// 再指定中の注釈ID（次にクリックした要素に紐付け直す）
+let reattachingId: string | null = null;
+
+// 画像出力時の凡例の配置
+let legendPosition: LegendPosition = 'none';
+
+// 番号の振り直しで手動のラベルを保持するか
+let keepCustomLabels = true;
+
+// 番号の書式と区切り文字
+let numbering: NumberingScheme = DEFAULT_NUMBERING_SCHEME;
+
+// 仕様表の出力形式
+let tableFormat: TableFormat = 'markdown';
+
+// URLの正規化ルールと、それによって決まる現在のページの保存キー
+let urlRules: UrlMatchRules = DEFAULT_URL_MATCH_RULES;
+let storageKey = '';
+
+// 表示中の注釈セットのURL（SPAのページ遷移の直後は遷移前のURLのまま、遷移先の注釈セットを読み込むまで保存しない）
+let stateUrl = location.href;
+let routeLoading = false;
+let navigationCount = 0;
+
+// SPAのページ遷移の監視の停止（編集モード中のみ）
+let stopRouteWatch: (() => void) | null = null;
+
+// カラーパレット（全ページ共通、拡張機能のストレージに保存）
+let palette: PaletteColor[] = DEFAULT_PALETTE;
+
+// 画像出力時のページの描画方法（全ページ共通、拡張機能のストレージに保存）
+let captureRenderer: CaptureRenderer = DEFAULT_CAPTURE_RENDERER;
+
+// 画像の出力範囲（パネルで選択）と、ドラッグでの範囲指定を待っている出力処理
+let captureScopeKind: CaptureScopeKind = 'page';
+let pendingCapture: ((scope: CaptureScope) => void) | null = null;
+
+// 番号バッジの寸法（px）
+const BADGE_HEIGHT = 28;
+const BADGE_BORDER_WIDTH = 3;
+
+// ハイライト枠の要素からの広がり（枠線の太さ + 要素との間隔、px）
+const HOVER_BOX_SPREAD = 4;
+const FOCUS_BOX_SPREAD = 8;
+
+// 元に戻す・やり直し用の操作履歴
+let editHistory: EditHistory = createEditHistory();
+// 連続した入力（ラベルや説明文の1文字ごとの変更など）を1つの履歴にまとめるための直前の記録
+let lastHistoryRecord: { mergeKey: string; time: number } | null = null;
+const HISTORY_MERGE_INTERVAL = 1000; // ms
+// 操作履歴の保存待ち（スナップショットが多く大きいため、入力のたびには保存せず変更が落ち着いてからまとめて保存）
+let historySaveTimer: ReturnType<typeof setTimeout> | null = null;
+const HISTORY_SAVE_DELAY = 2000; // ms
+
+// 注釈を付けたDOM要素（元に戻したときに手がかりで探し直さず同じ要素に付け直すため）
+// シャドウルートやiframe内の要素はdocument.querySelectorで探せないため、注釈から要素を引くときもこれを使う
+const knownElements = new Map<string, HTMLElement>();
+
+// 切り離された・見つからない注釈を、追加された要素から手がかりで探して付け直せなかった回数
+// 見つからないまま要素の追加が続くページで探し続けないよう、上限に達したら同じ要素が戻された場合だけ付け直す
+const reattachFailures = new Map<string, number>();
+const MAX_REATTACH_ATTEMPTS = 20;
+
+// 注釈を付けた要素の移動・サイズ変更とページの要素の追加・削除の監視（編集モード中のみ）
+let elementWatcher: ElementWatcher | null = null;
+
+// イベントを監視している同一オリジンのiframe内のドキュメント
+let frameDocuments: Document[] = [];
+
+// 以前のバージョンがページのlocalStorageに保存していたキー（移行用）
+function getLegacyStorageKey(): string {
   return `wdh-state-${location.href}`;
 }
 
-// 保存データの型
-interface SavedState {
-  elements: SelectedElement[];
-  nextNumber: number;
-  focusedElementId: string | null;
-  focusedSubNumber: number;
+// Background Service Workerにメッセージを送信（保存処理はchrome.storage.localを扱うBackgroundで行う）
+async function sendToBackground<T>(type: MessageType, payload?: unknown): Promise<T> {
+  const message: Message = { type, payload };
+  const response = await chrome.runtime.sendMessage(message);
+  if (response === null || response === undefined) {
+    throw new Error(`No response for ${type}`);
+  }
+  return response as T;
 }
 
-// 状態を保存
-function saveState(): void {
-  try {
-    const state: SavedState = {
-      elements: selectedElements,
-      nextNumber: nextNumber,
-      focusedElementId: focusedElementId,
-      focusedSubNumber: focusedSubNumber,
-    };
-    localStorage.setItem(getStorageKey(), JSON.stringify(state));
-  } catch (e) {
-    console.warn('WDH: Failed to save state', e);
+// 現在の状態を保存データの形式で取得
+function getCurrentState(): SavedState {
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    // 一致状態は復元のたびに判定し直すため保存しない
+    elements: selectedElements.map(({ match: _match, ...el }) => el),
+    nextNumber: nextNumber,
+    focusedElementId: focusedElementId,
+    focusedSubNumber: focusedSubNumber,
+    legendPosition: legendPosition,
+    tableFormat: tableFormat,
+    shapes: shapes,
+    keepCustomLabels: keepCustomLabels,
+    numbering: numbering,
+  };
+}
+
+// 状態を保存（失敗してもrejectしない）
+function saveState(): Promise<void> {
+  // 遷移先の注釈セットを読み込む前の空の状態で上書きしない
+  if (routeLoading) return Promise.resolve();
+  const request: StateRequest = { url: stateUrl, state: getCurrentState() };
+  scheduleHistorySave();
+  return sendToBackground<StateResponse>('SAVE_STATE', request)
+    .then(response => {
+      storageKey = response.key;
+    })
+    .catch(e => {
+      console.warn('WDH: Failed to save state', e);
+    });
+}
+
+// 操作履歴の保存を予約（予約済みなら待ち時間を延ばす）
+function scheduleHistorySave(): void {
+  if (historySaveTimer !== null) {
+    clearTimeout(historySaveTimer);
   }
+  historySaveTimer = setTimeout(flushHistorySave, HISTORY_SAVE_DELAY);
+}
+
+// 予約した操作履歴の保存をすぐに実行（失敗してもrejectしない）
+function flushHistorySave(): Promise<void> {
+  if (historySaveTimer === null) return Promise.resolve();
+  clearTimeout(historySaveTimer);
+  historySaveTimer = null;
+  const request: StateRequest = { url: stateUrl, history: trimEditHistory(editHistory) };
+  return sendToBackground<StateResponse>('SAVE_HISTORY', request)
+    .then(() => undefined)
+    .catch(e => {
+      console.warn('WDH: Failed to save edit history', e);
+    });
+}
+
+// ページを離れる・隠れる前に予約中の操作履歴を保存（再読み込み直後に元に戻す操作が消えないように）
+function handlePageHide(event: Event): void {
+  if (event.type === 'visibilitychange' && document.visibilityState !== 'hidden') return;
+  flushHistorySave();
 }
 
 // 状態を読み込み
-function loadState(): SavedState | null {
+async function loadState(): Promise<SavedState | null> {
   try {
-    const data = localStorage.getItem(getStorageKey());
-    if (data) {
-      const parsed = JSON.parse(data);
-      // 古い形式との互換性
-      return {
-        elements: parsed.elements || [],
-        nextNumber: parsed.nextNumber || 1,
-        focusedElementId: parsed.focusedElementId || null,
-        focusedSubNumber: parsed.focusedSubNumber || 1,
-      };
+    const request: StateRequest = { url: stateUrl };
+    const response = await sendToBackground<StateResponse>('LOAD_STATE', request);
+    storageKey = response.key;
+    editHistory = restoreEditHistory(response.history);
+    lastHistoryRecord = null;
+    if (response.state) {
+      // 古い形式のデータは現在の形式に変換
+      return migrateState(response.state);
+    }
+
+    // 以前のバージョンでページのlocalStorageに保存したデータがあれば移行して削除
+    const legacyData = localStorage.getItem(getLegacyStorageKey());
+    if (legacyData) {
+      const state = migrateState(JSON.parse(legacyData));
+      await sendToBackground<StateResponse>('SAVE_STATE', { url: stateUrl, state } as StateRequest);
+      localStorage.removeItem(getLegacyStorageKey());
+      return state;
     }
   } catch (e) {
     console.warn('WDH: Failed to load state', e);
@@ -63,85 +323,173 @@ function loadState(): SavedState | null {
   return null;
 }
 
-// 状態をクリア
-function clearState(): void {
-  try {
-    localStorage.removeItem(getStorageKey());
-  } catch (e) {
-    console.warn('WDH: Failed to clear state', e);
+// 変更前の状態を履歴に記録（mergeKeyが同じ操作が続く場合は最初の1回だけ記録）
+function recordHistory(mergeKey?: string): void {
+  const now = Date.now();
+  if (mergeKey && lastHistoryRecord?.mergeKey === mergeKey && now - lastHistoryRecord.time < HISTORY_MERGE_INTERVAL) {
+    lastHistoryRecord.time = now;
+    return;
   }
+  lastHistoryRecord = mergeKey ? { mergeKey, time: now } : null;
+  // 以降の変更で書き換わらないよう複製して記録
+  pushSnapshot(editHistory, structuredClone(getCurrentState()));
+  updateHistoryButtons();
 }
 
-// 色からHEXを取得
-function getColorHex(color: FrameColor): string {
-  return FRAME_COLORS.find(c => c.value === color)?.hex || '#ff0000';
+// 元に戻す・やり直しのボタン状態を更新
+function updateHistoryButtons(): void {
+  const undoBtn = panel?.querySelector('[data-action="undo"]') as HTMLButtonElement;
+  if (undoBtn) {
+    undoBtn.disabled = editHistory.undo.length === 0;
+  }
+  const redoBtn = panel?.querySelector('[data-action="redo"]') as HTMLButtonElement;
+  if (redoBtn) {
+    redoBtn.disabled = editHistory.redo.length === 0;
+  }
 }
 
-// ユニークID生成
-function generateId(): string {
-  return `wdh-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+// 履歴の状態に戻す
+function restoreSnapshot(state: SavedState): void {
+  reattachingId = null;
+  detachAllElements();
+  selectedElements = [];
+  focusedElementId = null;
+  focusedSubNumber = 1;
+  applySavedState(structuredClone(state));
+
+  // 連番は既存要素から計算し直さず記録時の値に戻す
+  nextNumber = state.nextNumber;
+  if (focusedElementId) {
+    focusedSubNumber = state.focusedSubNumber;
+  }
+
+  updatePanel();
+  saveState();
 }
 
-// CSSクラス名をエスケープ（Tailwindなどの特殊文字対応）
-function escapeClassName(className: string): string {
-  // CSS.escapeが使えれば使用、なければ手動エスケープ
-  if (typeof CSS !== 'undefined' && CSS.escape) {
-    return CSS.escape(className);
+// 元に戻す
+function undo(): void {
+  // 描画やドラッグの途中は操作しない
+  if (drawStart || drawingShape || shapeDrag) return;
+
+  const state = takeUndo(editHistory, structuredClone(getCurrentState()));
+  if (!state) {
+    showToast('元に戻す操作がありません');
+    return;
   }
-  // 手動エスケープ（数字開始や特殊文字をエスケープ）
-  return className.replace(/([^\w-])/g, '\\$1').replace(/^(\d)/, '\\3$1 ');
+  lastHistoryRecord = null;
+  restoreSnapshot(state);
 }
 
-// CSSセレクタを生成（より一意なセレクタを生成）
-function getSelector(element: HTMLElement): string {
-  if (element.id) {
-    // IDもエスケープが必要な場合がある
-    return `#${escapeClassName(element.id)}`;
+// やり直し
+function redo(): void {
+  if (drawStart || drawingShape || shapeDrag) return;
+
+  const state = takeRedo(editHistory, structuredClone(getCurrentState()));
+  if (!state) {
+    showToast('やり直す操作がありません');
+    return;
   }
+  lastHistoryRecord = null;
+  restoreSnapshot(state);
+}
 
-  const path: string[] = [];
-  let current: HTMLElement | null = element;
+// URLの正規化ルールを読み込み
+async function loadUrlRules(): Promise<void> {
+  try {
+    urlRules = await sendToBackground<UrlMatchRules>('GET_URL_RULES');
+  } catch (e) {
+    console.warn('WDH: Failed to load URL rules', e);
+  }
+}
 
-  while (current && current !== document.body) {
-    const tagName = current.tagName;
-    let selector = tagName.toLowerCase();
+// URLの正規化ルールを保存し、新しい保存キーに注釈セットを合わせる
+async function saveUrlRules(rules: UrlMatchRules): Promise<void> {
+  try {
+    urlRules = await sendToBackground<UrlMatchRules>('SAVE_URL_RULES', rules);
+  } catch (e) {
+    console.warn('WDH: Failed to save URL rules', e);
+    return;
+  }
 
-    if (current.className && typeof current.className === 'string') {
-      const classes = current.className
-        .split(' ')
-        .filter(c => c && !c.startsWith('wdh-'))
-        .slice(0, 2);
-      if (classes.length > 0) {
-        // 各クラス名をエスケープ
-        const escapedClasses = classes.map(c => escapeClassName(c));
-        selector += `.${escapedClasses.join('.')}`;
-      }
+  if (selectedElements.length > 0) {
+    // 現在の注釈セットを新しいキーで保存
+    await saveState();
+  } else {
+    // 新しいキーに保存済みの注釈セットがあれば復元
+    const savedState = await loadState();
+    if (savedState && isEditing) {
+      applySavedState(savedState);
     }
+  }
+  updatePanel();
+}
 
-    // 兄弟要素の中での位置を追加して一意性を高める
-    const parent: HTMLElement | null = current.parentElement;
-    if (parent) {
-      const children: HTMLCollection = parent.children;
-      let sameTagCount = 0;
-      let position = 0;
-      for (let i = 0; i < children.length; i++) {
-        if (children[i].tagName === tagName) {
-          sameTagCount++;
-          if (children[i] === current) {
-            position = sameTagCount;
-          }
-        }
-      }
-      if (sameTagCount > 1) {
-        selector += `:nth-of-type(${position})`;
-      }
-    }
+// カラーパレットを読み込み
+async function loadPalette(): Promise<void> {
+  try {
+    palette = await sendToBackground<PaletteColor[]>('GET_PALETTE');
+  } catch (e) {
+    console.warn('WDH: Failed to load palette', e);
+  }
+}
 
-    path.unshift(selector);
-    current = current.parentElement;
+// カラーパレットを保存
+async function savePalette(colors: PaletteColor[]): Promise<void> {
+  try {
+    palette = await sendToBackground<PaletteColor[]>('SAVE_PALETTE', colors);
+  } catch (e) {
+    console.warn('WDH: Failed to save palette', e);
+  }
+  updatePanel();
+}
+
+// 画像出力時の描画方法を読み込み
+async function loadCaptureRenderer(): Promise<void> {
+  try {
+    captureRenderer = await sendToBackground<CaptureRenderer>('GET_CAPTURE_RENDERER');
+  } catch (e) {
+    console.warn('WDH: Failed to load capture renderer', e);
+  }
+}
+
+// 画像出力時の描画方法を保存
+async function saveCaptureRenderer(renderer: CaptureRenderer): Promise<void> {
+  try {
+    captureRenderer = await sendToBackground<CaptureRenderer>('SAVE_CAPTURE_RENDERER', renderer);
+  } catch (e) {
+    console.warn('WDH: Failed to save capture renderer', e);
+  }
+  updatePanel();
+}
+
+// パレットに色を追加（同じ色があれば名前だけ更新）
+function addPaletteColor(hex: string, label: string): void {
+  const color = hex.toLowerCase();
+  const name = label.trim() || color;
+  const exists = palette.some(c => c.hex === color);
+  savePalette(exists
+    ? palette.map(c => c.hex === color ? { hex: color, label: name } : c)
+    : [...palette, { hex: color, label: name }]);
+}
+
+// パレットから色を削除（その色を使っている注釈の色はそのまま）
+function removePaletteColor(hex: string): void {
+  if (palette.length <= 1) {
+    showToast('パレットには1色以上必要です');
+    return;
   }
+  savePalette(palette.filter(c => c.hex !== hex));
+}
 
-  return path.slice(-4).join(' > ');
+// 新しい注釈や図形の色（パレットの先頭の色）
+function getDefaultColor(): FrameColor {
+  return palette[0]?.hex ?? DEFAULT_PALETTE[0].hex;
+}
+
+// ユニークID生成
+function generateId(): string {
+  return `wdh-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
 // オーバーレイコンテナを作成（bodyのmargin/paddingを打ち消す位置に配置）
@@ -159,61 +507,41 @@ function createOverlayContainer(): HTMLElement {
   const offsetTop = -(marginTop + paddingTop);
   const offsetLeft = -(marginLeft + paddingLeft);
 
-  // 完全なCSSリセット（TailwindCSS等の影響を排除）
-  container.style.cssText = `
-    all: initial !important;
-    position: absolute !important;
-    top: ${offsetTop}px !important;
-    left: ${offsetLeft}px !important;
-    width: 0 !important;
-    height: 0 !important;
-    margin: 0 !important;
-    padding: 0 !important;
-    border: none !important;
-    overflow: visible !important;
-    pointer-events: none !important;
-    z-index: 2147483646 !important;
-    transform: none !important;
-    box-sizing: content-box !important;
-  `;
+  // その他のスタイルはシャドウルート内のスタイルシートで指定（ページのCSSの影響は受けない）
+  container.style.setProperty('top', `${offsetTop}px`, 'important');
+  container.style.setProperty('left', `${offsetLeft}px`, 'important');
 
   return container;
 }
 
 // 枠オーバーレイを作成
-function createFrameOverlay(id: string, top: number, left: number, width: number, height: number, color: FrameColor, padding: number = 0): HTMLElement {
+function createFrameOverlay(el: SelectedElement): HTMLElement {
   const frame = document.createElement('div');
   frame.className = 'wdh-frame-overlay';
-  frame.dataset.wdhFrame = id;
+  frame.dataset.wdhFrame = el.id;
 
-  const borderWidth = 3;
-  const hex = getColorHex(color);
+  applyFrameStyle(frame, el);
+  positionFrame(frame, el);
+  return frame;
+}
 
-  // 枠の位置を計算（content-box基準：borderは外側に描画される）
-  // 枠のborderが要素を囲むように、要素の位置からborderWidth + padding分外側に配置
-  const frameTop = top - borderWidth - padding;
-  const frameLeft = left - borderWidth - padding;
-  // content-boxなので、widthとheightはborderを含まない内部サイズ
-  const frameWidth = width + padding * 2;
-  const frameHeight = height + padding * 2;
-
-  // 完全なCSSリセット（TailwindCSS等の影響を排除）
-  frame.style.setProperty('all', 'initial', 'important');
-  frame.style.setProperty('position', 'absolute', 'important');
-  frame.style.setProperty('top', `${frameTop}px`, 'important');
-  frame.style.setProperty('left', `${frameLeft}px`, 'important');
-  frame.style.setProperty('width', `${frameWidth}px`, 'important');
-  frame.style.setProperty('height', `${frameHeight}px`, 'important');
-  frame.style.setProperty('margin', '0', 'important');
-  frame.style.setProperty('padding', '0', 'important');
-  frame.style.setProperty('border', `${borderWidth}px solid ${hex}`, 'important');
-  frame.style.setProperty('background', 'transparent', 'important');
-  frame.style.setProperty('box-sizing', 'content-box', 'important');
-  frame.style.setProperty('pointer-events', 'none', 'important');
-  frame.style.setProperty('z-index', '2147483646', 'important');
-  frame.style.setProperty('transform', 'none', 'important');
+// 枠の線（色・種類・太さ）と塗りを設定
+function applyFrameStyle(frame: HTMLElement, el: SelectedElement): void {
+  frame.style.setProperty('border', `${el.strokeWidth}px ${el.strokeStyle} ${el.color}`, 'important');
+  frame.style.setProperty('background', el.fillOpacity > 0 ? hexToRgba(el.color, el.fillOpacity) : 'transparent', 'important');
+}
 
-  return frame;
+// 枠の位置とサイズを設定（content-box基準：borderは外側に描画される）
+function positionFrame(frame: HTMLElement, el: SelectedElement): void {
+  const { top, left, width, height } = el.rect;
+  const padding = el.padding ?? 0;
+
+  // 枠のborderが要素を囲むように、要素の位置から枠線の太さ + padding分外側に配置
+  frame.style.setProperty('top', `${top - el.strokeWidth - padding}px`, 'important');
+  frame.style.setProperty('left', `${left - el.strokeWidth - padding}px`, 'important');
+  // content-boxなので、widthとheightはborderを含まない内部サイズ
+  frame.style.setProperty('width', `${width + padding * 2}px`, 'important');
+  frame.style.setProperty('height', `${height + padding * 2}px`, 'important');
 }
 
 // バッジの幅を計算する共通関数
@@ -221,150 +549,513 @@ function calculateBadgeWidth(label: string): number {
   return label.length <= 2 ? 28 : Math.max(28, label.length * 10 + 12);
 }
 
-// 番号バッジを作成（固定位置でbody直下に配置）
-function createNumberBadge(id: string, label: string, top: number, left: number, color: FrameColor, padding: number = 0): HTMLElement {
+// 番号バッジを作成
+function createNumberBadge(el: SelectedElement): HTMLElement {
   const badge = document.createElement('div');
   badge.className = 'wdh-number-badge';
-  badge.textContent = label;
-  badge.dataset.wdhBadge = id;
-
-  const hex = getColorHex(color);
-
-  // ラベルの長さに応じてサイズを調整
-  const badgeWidth = calculateBadgeWidth(label);
-  const badgeHeight = 28;
-  const frameBorderWidth = 3;
-
-  // 枠の外側の角にバッジの中心を配置
-  // 枠は要素からpadding + frameBorderWidth分外側に描画される
-  // バッジの中心をその角に合わせる
-  const badgeTop = top - padding - frameBorderWidth - badgeHeight / 2;
-  const badgeLeft = left - padding - frameBorderWidth - badgeWidth / 2;
-
-  // 固定位置でインラインスタイルを設定（html2canvas対応）
-  // setPropertyで!importantを付けて確実に適用
-  // 完全なCSSリセット（TailwindCSS等の影響を排除）
-  badge.style.setProperty('all', 'initial', 'important');
-  badge.style.setProperty('margin', '0', 'important');
-  badge.style.setProperty('padding', '0', 'important');
-  badge.style.setProperty('border', `3px solid ${hex}`, 'important');
-  badge.style.setProperty('outline', 'none', 'important');
-  badge.style.setProperty('transform', 'none', 'important');
-  badge.style.setProperty('float', 'none', 'important');
-  badge.style.setProperty('clear', 'none', 'important');
-  badge.style.setProperty('inset', 'auto', 'important');
-
-  // 位置とサイズ
-  badge.style.setProperty('position', 'absolute', 'important');
-  badge.style.setProperty('top', `${badgeTop}px`, 'important');
-  badge.style.setProperty('left', `${badgeLeft}px`, 'important');
-  badge.style.setProperty('right', 'auto', 'important');
-  badge.style.setProperty('bottom', 'auto', 'important');
-  badge.style.setProperty('width', `${badgeWidth}px`, 'important');
-  badge.style.setProperty('height', `${badgeHeight}px`, 'important');
-  badge.style.setProperty('min-width', '0', 'important');
-  badge.style.setProperty('min-height', '0', 'important');
-  badge.style.setProperty('max-width', 'none', 'important');
-  badge.style.setProperty('max-height', 'none', 'important');
-
-  // 外観
-  badge.style.setProperty('background-color', '#ffffff', 'important');
-  badge.style.setProperty('background', '#ffffff', 'important');
-  badge.style.setProperty('color', hex, 'important');
-  badge.style.setProperty('border-radius', '14px', 'important');
-  badge.style.setProperty('box-shadow', 'none', 'important');
-  badge.style.setProperty('opacity', '1', 'important');
-  badge.style.setProperty('visibility', 'visible', 'important');
-
-  // レイアウト
-  badge.style.setProperty('display', 'flex', 'important');
-  badge.style.setProperty('align-items', 'center', 'important');
-  badge.style.setProperty('justify-content', 'center', 'important');
-  badge.style.setProperty('flex-direction', 'row', 'important');
-  badge.style.setProperty('flex-wrap', 'nowrap', 'important');
-  badge.style.setProperty('gap', '0', 'important');
-
-  // テキスト
-  badge.style.setProperty('font-size', '14px', 'important');
-  badge.style.setProperty('font-weight', 'bold', 'important');
-  badge.style.setProperty('font-family', 'Arial, sans-serif', 'important');
-  badge.style.setProperty('font-style', 'normal', 'important');
-  badge.style.setProperty('line-height', '1', 'important');
-  badge.style.setProperty('text-align', 'center', 'important');
-  badge.style.setProperty('text-decoration', 'none', 'important');
-  badge.style.setProperty('text-transform', 'none', 'important');
-  badge.style.setProperty('letter-spacing', 'normal', 'important');
-  badge.style.setProperty('white-space', 'nowrap', 'important');
-
-  // その他
-  badge.style.setProperty('z-index', '2147483647', 'important');
-  badge.style.setProperty('pointer-events', 'none', 'important');
-  badge.style.setProperty('box-sizing', 'content-box', 'important');
-  badge.style.setProperty('overflow', 'hidden', 'important');
-  badge.style.setProperty('clip', 'auto', 'important');
-  badge.style.setProperty('filter', 'none', 'important');
+  badge.textContent = el.label;
+  badge.dataset.wdhBadge = el.id;
 
+  // 外観はスタイルシートで指定し、色と位置だけインラインで設定
+  // 位置はlayoutBadgeOverlaysで他のバッジと合わせて決める
+  applyBadgeStyle(badge, el);
   return badge;
 }
 
-// 保存された状態から要素を復元
-function restoreElements(savedElements: SelectedElement[]): void {
+// バッジの色を設定（枠線の種類や太さにかかわらずバッジは実線）
+function applyBadgeStyle(badge: HTMLElement, el: SelectedElement): void {
+  badge.style.setProperty('border', `${BADGE_BORDER_WIDTH}px solid ${el.color}`, 'important');
+  badge.style.setProperty('color', el.color, 'important');
+}
+
+// バッジの配置計算に渡す情報（枠は要素からpadding + 枠線の太さ分外側に描画される）
+function getBadgeLayoutItem(el: SelectedElement): BadgeLayoutItem {
+  const offset = (el.padding ?? 0) + el.strokeWidth;
+  return {
+    id: el.id,
+    frame: {
+      left: el.rect.left - offset,
+      top: el.rect.top - offset,
+      width: el.rect.width + offset * 2,
+      height: el.rect.height + offset * 2,
+    },
+    inset: el.strokeWidth,
+    // ラベルの長さに応じてサイズを調整（表示される大きさで重なりを判定するためボーダーを含める）
+    width: calculateBadgeWidth(el.label) + BADGE_BORDER_WIDTH * 2,
+    height: BADGE_HEIGHT + BADGE_BORDER_WIDTH * 2,
+    anchor: el.badgeAnchor,
+    side: el.badgeSide,
+  };
+}
+
+// 引き出し線を描画（不要な場合は削除）
+function renderLeaderLine(entry: OverlayEntry, el: SelectedElement, leader: BadgePlacement['leader']): void {
+  if (!leader) {
+    entry.leader?.remove();
+    entry.leader = null;
+    return;
+  }
+  if (!entry.leader) {
+    entry.leader = document.createElement('div');
+    entry.leader.className = 'wdh-badge-leader';
+    entry.leader.dataset.wdhLeader = el.id;
+    overlayContainer?.appendChild(entry.leader);
+  }
+  const line = entry.leader;
+  const length = Math.hypot(leader.x2 - leader.x1, leader.y2 - leader.y1);
+  const angle = Math.atan2(leader.y2 - leader.y1, leader.x2 - leader.x1);
+  line.style.setProperty('top', `${leader.y1 - 1}px`, 'important');
+  line.style.setProperty('left', `${leader.x1}px`, 'important');
+  line.style.setProperty('width', `${length}px`, 'important');
+  line.style.setProperty('background', el.color, 'important');
+  line.style.setProperty('transform', `rotate(${angle}rad)`, 'important');
+}
+
+// バッジの配置を計算（横は表示幅、縦はページの高さに収める）
+function computeBadgePlacements(elements: SelectedElement[]): Map<string, BadgePlacement> {
+  const root = document.documentElement;
+  return layoutBadges(elements.map(getBadgeLayoutItem), {
+    left: 0,
+    top: 0,
+    right: root.clientWidth,
+    bottom: Math.max(root.scrollHeight, root.clientHeight),
+  });
+}
+
+// 画面の表示範囲に余白を加えた矩形（ページ座標）
+function getViewportBounds(): LayoutRect {
+  return {
+    left: window.scrollX - OFFSCREEN_MARGIN,
+    top: window.scrollY - OFFSCREEN_MARGIN,
+    width: window.innerWidth + OFFSCREEN_MARGIN * 2,
+    height: window.innerHeight + OFFSCREEN_MARGIN * 2,
+  };
+}
+
+// 矩形が表示範囲に重なるか
+function intersectsBounds(rect: LayoutRect, bounds: LayoutRect): boolean {
+  return rect.left + rect.width >= bounds.left
+    && rect.left <= bounds.left + bounds.width
+    && rect.top + rect.height >= bounds.top
+    && rect.top <= bounds.top + bounds.height;
+}
+
+// 枠・バッジ・引き出し線の表示を切り替え（スタイルシートのdisplay指定より優先させる）
+function setOverlayVisible(entry: OverlayEntry, visible: boolean): void {
+  entry.visible = visible;
+  [entry.frame, entry.badge, entry.leader].forEach(node => {
+    if (visible) {
+      node?.style.removeProperty('display');
+    } else {
+      node?.style.setProperty('display', 'none', 'important');
+    }
+  });
+}
+
+// 注釈の枠とバッジを作成して登録（位置はlayoutBadgeOverlaysで設定）
+function createOverlay(el: SelectedElement, element: HTMLElement | null): void {
+  const frame = createFrameOverlay(el);
+  const badge = createNumberBadge(el);
+  overlayContainer?.append(frame, badge);
+  overlays.set(el.id, {
+    element,
+    frame,
+    badge,
+    leader: null,
+    placement: null,
+    visible: true,
+    moving: false,
+    written: '',
+  });
+}
+
+// 計算済みの位置を枠・バッジ・引き出し線に書き込む
+// 画面外の注釈は非表示にし、前回から位置が変わっていない注釈は書き込まない
+function writeOverlays(): void {
+  const viewport = getViewportBounds();
+  selectedElements.forEach(el => {
+    const entry = overlays.get(el.id);
+    if (!entry?.placement) return;
+
+    const { placement } = entry;
+    const badgeWidth = calculateBadgeWidth(el.label);
+    const frame = getBadgeLayoutItem(el).frame;
+    const badgeRect = {
+      left: placement.left,
+      top: placement.top,
+      width: badgeWidth + BADGE_BORDER_WIDTH * 2,
+      height: BADGE_HEIGHT + BADGE_BORDER_WIDTH * 2,
+    };
+    const visible = intersectsBounds(frame, viewport) || intersectsBounds(badgeRect, viewport);
+    if (visible !== entry.visible) {
+      setOverlayVisible(entry, visible);
+    }
+    if (!visible) return;
+
+    const key = JSON.stringify([frame, placement, badgeWidth]);
+    if (key === entry.written) return;
+    entry.written = key;
+
+    positionFrame(entry.frame, el);
+    entry.badge.style.setProperty('top', `${placement.top}px`, 'important');
+    entry.badge.style.setProperty('left', `${placement.left}px`, 'important');
+    entry.badge.style.setProperty('width', `${badgeWidth}px`, 'important');
+    renderLeaderLine(entry, el, placement.leader);
+  });
+}
+
+// 全バッジの位置とサイズを計算し直して書き込む
+// 自動配置のバッジは重なりや画面外へのはみ出しを避け、枠から離れた場合は引き出し線を描く
+function layoutBadgeOverlays(): void {
+  const targets = selectedElements.filter(el => overlays.has(el.id));
+  const placements = computeBadgePlacements(targets);
+  targets.forEach(el => {
+    const entry = overlays.get(el.id);
+    if (entry) {
+      entry.placement = placements.get(el.id) ?? null;
+    }
+  });
+  writeOverlays();
+}
+
+// 注釈の枠・バッジ・引き出し線を削除
+function removeOverlay(id: string): void {
+  const entry = overlays.get(id);
+  if (!entry) return;
+  entry.frame.remove();
+  entry.badge.remove();
+  entry.leader?.remove();
+  overlays.delete(id);
+}
+
+// 注釈の枠とバッジを現在のラベル・色・線・位置に合わせて更新
+function refreshOverlay(el: SelectedElement): void {
+  const entry = overlays.get(el.id);
+  if (entry) {
+    applyFrameStyle(entry.frame, el);
+    entry.badge.textContent = el.label;
+    applyBadgeStyle(entry.badge, el);
+    // 引き出し線の色も変わるため位置が同じでも書き込み直す
+    entry.written = '';
+  }
+
+  // ラベルの長さや枠の大きさが変わると他のバッジの配置も変わる
+  layoutBadgeOverlays();
+}
+
+// ハイライト枠を作成（位置はupdateHighlightBoxesで設定）
+function createHighlightBox(className: string): HTMLElement {
+  const box = document.createElement('div');
+  box.className = `wdh-highlight-box ${className}`;
+  return box;
+}
+
+// ハイライト枠を要素の位置（ページ座標）の周りに配置（spreadは枠線の太さと要素との間隔の合計、位置がなければ非表示）
+function positionHighlightBox(box: HTMLElement | null, rect: LayoutRect | null, spread: number): void {
+  if (!box) return;
+  if (!rect) {
+    box.style.setProperty('display', 'none', 'important');
+    return;
+  }
+  box.style.setProperty('display', 'block', 'important');
+  box.style.setProperty('top', `${rect.top - spread}px`, 'important');
+  box.style.setProperty('left', `${rect.left - spread}px`, 'important');
+  box.style.setProperty('width', `${rect.width + spread * 2}px`, 'important');
+  box.style.setProperty('height', `${rect.height + spread * 2}px`, 'important');
+}
+
+// ホバー中の候補とフォーカス中の要素の位置を読み取る
+function readHighlightRects(): { hover: LayoutRect | null; focus: LayoutRect | null } {
+  const focused = getAnnotatedElement(focusedElementId);
+  return {
+    hover: highlightedElement?.isConnected ? getPageRect(highlightedElement) : null,
+    focus: focused ? getPageRect(focused) : null,
+  };
+}
+
+// ハイライト枠に位置を書き込む
+function writeHighlightBoxes(rects: { hover: LayoutRect | null; focus: LayoutRect | null }): void {
+  positionHighlightBox(hoverBox, rects.hover, HOVER_BOX_SPREAD);
+  positionHighlightBox(focusBox, rects.focus, FOCUS_BOX_SPREAD);
+}
+
+// ホバー中の候補とフォーカス中の要素のハイライト枠を更新
+function updateHighlightBoxes(): void {
+  writeHighlightBoxes(readHighlightRects());
+}
+
+// 注釈が現在紐付いているDOM要素（紐付いていなければnull）
+function getAnnotatedElement(id: string | null): HTMLElement | null {
+  if (!id) return null;
+  const element = knownElements.get(id);
+  return element && element.isConnected && element.dataset.wdhId === id ? element : null;
+}
+
+// DOM要素に注釈を紐付けて枠とバッジを作成（位置は現在のものに更新）
+function attachElement(el: SelectedElement, element: HTMLElement): void {
+  // 要素にIDを付与
+  element.dataset.wdhId = el.id;
+  knownElements.set(el.id, element);
+  // 要素の移動・サイズ変更・削除に追従する
+  elementWatcher?.observe(element);
+
+  // 現在の位置を取得（ページ構造が変わっている可能性があるため）
+  // オーバーレイコンテナがbodyのmargin/paddingを打ち消しているため単純計算でOK（iframe内の要素はiframeの位置を足す）
+  el.rect = getPageRect(element);
+
+  // 枠オーバーレイと番号バッジを作成
+  createOverlay(el, element);
+}
+
+// 範囲注釈の枠とバッジを作成（位置は保存されたページ座標のまま）
+function attachRegion(el: SelectedElement): void {
+  createOverlay(el, null);
+}
+
+// 保存された状態から要素を復元（見つからない・一致度が低い要素を返す）
+function restoreElements(savedElements: SelectedElement[]): SelectedElement[] {
   // 既に使用されているDOM要素を追跡（同じ要素に複数のバッジが付くのを防ぐ）
-  const usedElements = new Set<HTMLElement>();
+  const usedElements = new Set<HTMLElement>(
+    [...knownElements.keys()].map(getAnnotatedElement).filter((e): e is HTMLElement => e !== null)
+  );
+  const unresolved: SelectedElement[] = [];
 
   savedElements.forEach(savedEl => {
-    // セレクタで要素を探す
-    const element = document.querySelector(savedEl.selector) as HTMLElement;
-    if (!element) {
-      console.warn(`WDH: Element not found for selector: ${savedEl.selector}`);
+    // 範囲注釈は保存された位置にそのまま復元
+    if (savedEl.kind === 'region') {
+      const restored: SelectedElement = { ...savedEl };
+      attachRegion(restored);
+      selectedElements.push(restored);
       return;
     }
 
-    // 既に別の選択で使用されている要素はスキップ
-    if (usedElements.has(element)) {
-      console.warn(`WDH: Element already used, skipping: ${savedEl.selector}`);
-      return;
+    // 以前に付けていた要素がページに残っていればそのまま使い、なければ手がかりから最も一致する要素を探す
+    const known = knownElements.get(savedEl.id);
+    const { element, match } = known && known.isConnected && !usedElements.has(known)
+      ? { element: known, match: { status: 'ok', confidence: 1 } as ElementMatch }
+      : findBestMatch(savedEl, usedElements);
+    const restored: SelectedElement = { ...savedEl, match };
+
+    if (element) {
+      usedElements.add(element);
+      attachElement(restored, element);
+    } else {
+      // 見つからない要素もパネルで再指定できるよう一覧には残す
+      console.warn(`WDH: Element not found for selector: ${savedEl.selector}`);
+    }
+
+    if (match.status !== 'ok') {
+      unresolved.push(restored);
     }
+    selectedElements.push(restored);
+  });
+
+  return unresolved;
+}
 
-    // 既に別のIDが付与されている場合もスキップ
-    if (element.dataset.wdhId && element.dataset.wdhId !== savedEl.id) {
-      console.warn(`WDH: Element already has different ID, skipping: ${savedEl.selector}`);
+// 注釈がDOM要素に紐付いているか
+function isAttached(el: SelectedElement): boolean {
+  return el.match?.status !== 'missing' && el.match?.status !== 'detached';
+}
+
+// 注釈にフォーカスしてサブ要素を選択できるか
+// 範囲注釈にはサブ要素を選ぶ範囲となるDOM要素がないため、フォーカスできるのはページに見つかった要素注釈のみ
+function canFocus(el: SelectedElement): boolean {
+  return el.kind === 'element' && isAttached(el);
+}
+
+// 要素がページに表示されうる状態か（DOMから外れた要素や、読み込み直されたiframeの古いドキュメントの要素は除く）
+function isLiveElement(element: HTMLElement): boolean {
+  return element.isConnected && element.ownerDocument.defaultView !== null;
+}
+
+// DOMから削除された要素の注釈を切り離す（再表示されたら付け直せるよう一覧には残す）
+// 切り離した注釈があればtrueを返す
+function detachRemovedElements(): boolean {
+  let detached = false;
+  selectedElements.forEach(el => {
+    if (el.kind !== 'element' || !isAttached(el)) return;
+    const element = knownElements.get(el.id);
+    if (element && isLiveElement(element)) return;
+
+    removeOverlay(el.id);
+    if (element) {
+      elementWatcher?.unobserve(element);
+    }
+    el.match = { status: 'detached', confidence: 0 };
+    reattachFailures.delete(el.id);
+    detached = true;
+  });
+  return detached;
+}
+
+// 切り離された・見つからない要素が再び表示されていれば付け直す（確実に一致する要素のみ）
+// 手がかりで探す範囲は追加された要素とその子孫に限る（addedElements）
+function reattachReappearedElements(addedElements: Element[]): void {
+  if (!isEditing) return;
+  const pending = selectedElements.filter(el => el.kind === 'element' && !isAttached(el) && el.id !== reattachingId);
+  if (pending.length === 0) return;
+
+  const usedElements = new Set<HTMLElement>(
+    selectedElements.map(el => getAnnotatedElement(el.id)).filter((e): e is HTMLElement => e !== null)
+  );
+  let reattached = 0;
+  pending.forEach(el => {
+    // 同じ要素がページに戻された場合はそのまま使い、作り直された場合は手がかりから探す
+    const known = knownElements.get(el.id);
+    const failures = reattachFailures.get(el.id) ?? 0;
+    let found: { element: HTMLElement | null; match: ElementMatch };
+    if (known && isLiveElement(known) && !usedElements.has(known)) {
+      found = { element: known, match: { status: 'ok', confidence: 1 } };
+    } else if (failures < MAX_REATTACH_ATTEMPTS) {
+      found = findBestMatch(el, usedElements, addedElements);
+    } else {
+      return;
+    }
+    const { element, match } = found;
+    if (!element || match.status !== 'ok') {
+      reattachFailures.set(el.id, failures + 1);
       return;
     }
 
+    reattachFailures.delete(el.id);
     usedElements.add(element);
+    el.match = match;
+    attachElement(el, element);
+    reattached++;
+  });
 
-    // 要素にIDを付与
-    element.dataset.wdhId = savedEl.id;
-
-    // 現在の位置を取得（ページ構造が変わっている可能性があるため）
-    const rect = element.getBoundingClientRect();
-    const top = rect.top + window.scrollY;
-    const left = rect.left + window.scrollX;
-
-    // paddingのデフォルト値（古いデータとの互換性）
-    const padding = savedEl.padding ?? 0;
-
-    // 枠オーバーレイを作成
-    const frame = createFrameOverlay(savedEl.id, top, left, rect.width, rect.height, savedEl.color, padding);
-    overlayContainer?.appendChild(frame);
-
-    // 番号バッジを作成
-    const badge = createNumberBadge(savedEl.id, savedEl.label, top, left, savedEl.color, padding);
-    overlayContainer?.appendChild(badge);
-
-    // 位置を更新して追加
-    selectedElements.push({
-      ...savedEl,
-      padding,
-      rect: {
-        top,
-        left,
-        width: rect.width,
-        height: rect.height,
-      },
-    });
+  if (reattached > 0) {
+    layoutBadgeOverlays();
+    renderShapes();
+    updateHighlightBoxes();
+    updatePanel();
+  }
+}
+
+// 監視している要素やページが変化したら、削除された要素の切り離しと位置の合わせ直しを次のアニメーションフレームに予約
+// スクロールなどと同じ更新にまとめ、レイアウトの読み取りと書き込みを1回ずつにする
+function handleWatchedLayout(): void {
+  if (!isEditing) return;
+  overlayDetachCheck = true;
+  scheduleOverlayUpdate(true);
+}
+
+// 再指定モードを開始
+function startReattach(id: string): void {
+  reattachingId = id;
+  updatePanel();
+  showToast('紐付ける要素をページ上でクリックしてください');
+}
+
+// 再指定モードを終了
+function cancelReattach(): void {
+  reattachingId = null;
+  updatePanel();
+}
+
+// 注釈をクリックした要素に紐付け直す
+function reattachElement(id: string, element: HTMLElement): void {
+  const el = selectedElements.find(e => e.id === id);
+  if (!el) return;
+
+  // パネルやオーバーレイ（UIのホスト）は選択不可
+  if (isUiHost(element)) {
+    return;
+  }
+
+  if (element.dataset.wdhId && element.dataset.wdhId !== id) {
+    showToast('この要素は既に別の番号に紐付いています');
+    return;
+  }
+
+  recordHistory();
+
+  // 以前の紐付けと枠・バッジを削除
+  const previous = getAnnotatedElement(id);
+  if (previous) {
+    delete previous.dataset.wdhId;
+    elementWatcher?.unobserve(previous);
+  }
+  removeOverlay(id);
+
+  // 手がかりを新しい要素で作り直す
+  el.selector = getSelector(element);
+  el.tagName = element.tagName.toLowerCase();
+  el.fingerprint = createFingerprint(element);
+  el.match = { status: 'ok', confidence: 1 };
+  attachElement(el, element);
+  layoutBadgeOverlays();
+
+  reattachingId = null;
+  updatePanel();
+  saveState();
+}
+
+// 一致度の低い要素を正しいものとして確定
+function confirmMatch(id: string): void {
+  const el = selectedElements.find(e => e.id === id);
+  const element = getAnnotatedElement(id);
+  if (!el || !element) return;
+
+  // 現在の要素で手がかりを更新して次回以降は確実に一致させる
+  el.selector = getSelector(element);
+  el.fingerprint = createFingerprint(element);
+  el.match = { status: 'ok', confidence: 1 };
+  updatePanel();
+  saveState();
+}
+
+// 保存データを適用して要素と番号を復元（復元できなかった要素を返す）
+function applySavedState(state: SavedState): SelectedElement[] {
+  legendPosition = state.legendPosition;
+  tableFormat = state.tableFormat;
+  shapes = state.shapes;
+  keepCustomLabels = state.keepCustomLabels;
+  numbering = state.numbering;
+
+  if (state.elements.length === 0) {
+    renderShapes();
+    return [];
+  }
+
+  const unresolved = restoreElements(state.elements);
+
+  // フォーカス中の要素が復元できなかった場合はフォーカスを解除
+  focusedElementId = selectedElements.some(e => e.id === state.focusedElementId && canFocus(e))
+    ? state.focusedElementId
+    : null;
+
+  // 次の番号を既存要素から計算（親要素のみ対象）
+  nextNumber = getNextNumber(null);
+
+  // サブ番号を既存要素から計算（フォーカス中の場合）
+  if (focusedElementId) {
+    focusedSubNumber = getNextNumber(focusedElementId);
+
+  } else {
+    focusedSubNumber = 1;
+  }
+
+  // フォーカス中の要素を強調表示
+  updateHighlightBoxes();
+
+  layoutBadgeOverlays();
+  renderShapes();
+  return unresolved;
+}
+
+// 全要素の枠・バッジとdata属性を削除（選択状態の配列はそのまま）
+function detachAllElements(): void {
+  selectedElements.forEach(el => {
+    const element = getAnnotatedElement(el.id);
+    if (element) {
+      delete element.dataset.wdhId;
+      elementWatcher?.unobserve(element);
+    }
+    removeOverlay(el.id);
   });
+  updateHighlightBoxes();
 }
 
 // 要素の色を変更
@@ -372,187 +1063,572 @@ function changeElementColor(id: string, color: FrameColor): void {
   const el = selectedElements.find(e => e.id === id);
   if (!el) return;
 
+  recordHistory();
+
   el.color = color;
-  const hex = getColorHex(color);
+  refreshOverlay(el);
+
+  // パネルの番号バッジも更新
+  updatePanel();
+  saveState();
+}
+
+// 枠線の種類・太さと塗りを変更
+function updateFrameStyle(id: string, changes: Partial<Pick<SelectedElement, 'strokeStyle' | 'strokeWidth' | 'fillOpacity'>>): void {
+  const el = selectedElements.find(e => e.id === id);
+  if (!el) return;
+
+  recordHistory(`frame-style:${id}`);
+  Object.assign(el, changes);
+  refreshOverlay(el);
+  saveState();
+}
+
+// 番号バッジの位置を変更
+function updateBadgePlacement(id: string, changes: Partial<Pick<SelectedElement, 'badgeAnchor' | 'badgeSide'>>): void {
+  const el = selectedElements.find(e => e.id === id);
+  if (!el) return;
 
-  // 枠の色を更新（overlayContainer内を検索、!importantで上書き）
-  const frame = overlayContainer?.querySelector(`[data-wdh-frame="${id}"]`) as HTMLElement;
-  if (frame) {
-    frame.style.setProperty('border', `3px solid ${hex}`, 'important');
+  recordHistory();
+  Object.assign(el, changes);
+  layoutBadgeOverlays();
+  saveState();
+}
+
+// パネルの線・太さ・塗りの入力値を反映
+function updateStrokeSetting(id: string, setting: string | undefined, value: string): void {
+  if (setting === 'strokeStyle') {
+    updateFrameStyle(id, { strokeStyle: value as StrokeStyle });
+  } else if (setting === 'strokeWidth') {
+    const width = parseInt(value, 10) || STROKE_WIDTH_MIN;
+    updateFrameStyle(id, { strokeWidth: Math.min(STROKE_WIDTH_MAX, Math.max(STROKE_WIDTH_MIN, width)) });
+  } else if (setting === 'fillOpacity') {
+    updateFrameStyle(id, { fillOpacity: parseFloat(value) || 0 });
   }
+}
 
-  // バッジの色を更新（overlayContainer内を検索、!importantで上書き）
-  const badge = overlayContainer?.querySelector(`[data-wdh-badge="${id}"]`) as HTMLElement;
-  if (badge) {
-    badge.style.setProperty('color', hex, 'important');
-    badge.style.setProperty('border', `3px solid ${hex}`, 'important');
+// 紐付いた要素の現在の位置を読み取る（位置が変わった注釈があればtrueを返す）
+// allがfalseの場合は画面の近くの注釈と、スクロールで動く要素の注釈だけを読み直す
+function readOverlayRects(all: boolean): boolean {
+  const viewport = getViewportBounds();
+  let changed = false;
+  selectedElements.forEach(el => {
+    const entry = overlays.get(el.id);
+    if (!entry?.element || !entry.element.isConnected) return;
+    if (!all && !entry.moving && !intersectsBounds(el.rect, viewport)) return;
+
+    // オーバーレイコンテナがbodyのmargin/paddingを打ち消しているため、単純な計算でOK
+    const rect = getPageRect(entry.element);
+    const moved = rect.top !== el.rect.top || rect.left !== el.rect.left
+      || rect.width !== el.rect.width || rect.height !== el.rect.height;
+    // スクロールだけで位置が変わった要素は、以降のスクロールでは画面外でも読み直す
+    if (moved && !all) {
+      entry.moving = true;
+    }
+    if (moved) {
+      el.rect = rect;
+      changed = true;
+    }
+  });
+  return changed;
+}
+
+// オーバーレイ（枠とバッジ）の位置を更新（すべての注釈の位置を読み取ってから書き込む）
+function updateOverlayPositions(): void {
+  readOverlayRects(true);
+  const layerSize = readShapeLayerSize();
+
+  // バッジは全注釈の位置が決まってからまとめて配置
+  layoutBadgeOverlays();
+
+  // 紐付いた図形を注釈に追従させる
+  renderShapes(layerSize);
+}
+
+// 位置の更新を次のアニメーションフレームにまとめて予約
+// fullがfalseの場合（スクロール）は画面の近くの注釈だけ読み直し、位置が変わらなければ表示の切り替えだけ行う
+function scheduleOverlayUpdate(full: boolean): void {
+  overlayFullUpdate = overlayFullUpdate || full;
+  if (overlayFrameRequest !== null) return;
+  overlayFrameRequest = requestAnimationFrame(() => {
+    overlayFrameRequest = null;
+    const all = overlayFullUpdate;
+    overlayFullUpdate = false;
+    if (!isEditing) return;
+
+    // 削除された要素の確認は接続状態を見るだけのため、レイアウトを読み取る前に済ませる
+    const detached = overlayDetachCheck && detachRemovedElements();
+    overlayDetachCheck = false;
+
+    // レイアウトの再計算が繰り返されないよう、読み取りをすべて済ませてから書き込む
+    const changed = readOverlayRects(all);
+    const highlights = readHighlightRects();
+    const layerSize = changed || all ? readShapeLayerSize() : null;
+    const tooltipTarget = hoveredElement && pickTooltip ? getViewportRect(hoveredElement) : null;
+    if (layerSize) {
+      layoutBadgeOverlays();
+      renderShapes(layerSize);
+    } else {
+      writeOverlays();
+    }
+    writeHighlightBoxes(highlights);
+    if (tooltipTarget) {
+      positionPickTooltip(tooltipTarget);
+    }
+    if (detached) {
+      updatePanel();
+    }
+  });
+}
+
+// 既存の子要素のラベルから次の連番を計算（parentIdがnullの場合はトップレベル）
+function getNextNumber(parentId: string | null): number {
+  const parentLabel = selectedElements.find(e => e.id === parentId)?.label ?? null;
+  const depth = getAncestorPath(parentId).length;
+  // 手動で変更したラベルは連番として読まない
+  const maxNumber = selectedElements
+    .filter(e => e.parentId === parentId && !e.customLabel)
+    .reduce((max, el) => Math.max(max, parseLabelNumber(el.label, parentLabel, depth, numbering) ?? 0), 0);
+  return maxNumber + 1;
+}
+
+// 新しい注釈のラベルと親を決めて連番を進める
+// フォーカスモード時は「親ラベル + 区切り文字 + 連番」形式（書式は階層ごとの設定に従う）
+function takeNextLabel(): { label: string; parentId: string | null } {
+  if (focusedElementId) {
+    const path = getAncestorPath(focusedElementId);
+    const parentElement = path[path.length - 1];
+    if (parentElement) {
+      return {
+        label: buildLabel(parentElement.label, focusedSubNumber++, path.length, numbering),
+        parentId: focusedElementId,
+      };
+    }
   }
+  return { label: buildLabel(null, nextNumber++, 0, numbering), parentId: null };
+}
 
-  // パネルの番号バッジも更新
+// 範囲注釈を作成（座標はページ座標）
+function createRegion(top: number, left: number, width: number, height: number): void {
+  recordHistory();
+  const { label, parentId } = takeNextLabel();
+
+  const region: SelectedElement = {
+    id: generateId(),
+    kind: 'region',
+    label,
+    customLabel: false,
+    parentId,
+    selector: '',
+    tagName: '',
+    color: getDefaultColor(),
+    strokeStyle: 'solid',
+    strokeWidth: 3,
+    fillOpacity: 0,
+    padding: 0,
+    badgeAnchor: 'auto',
+    badgeSide: 'edge',
+    description: '',
+    fingerprint: createEmptyFingerprint(),
+    rect: { top, left, width, height },
+  };
+
+  attachRegion(region);
+  selectedElements.push(region);
+  layoutBadgeOverlays();
   updatePanel();
   saveState();
 }
 
-// オーバーレイ（枠とバッジ）の位置を更新
-function updateOverlayPositions(): void {
+// 描画ツールを切り替え（選択中のツールを再度選ぶと解除）
+function setDrawTool(tool: DrawTool): void {
+  drawTool = drawTool === tool ? null : tool;
+  // 画像を出力する範囲の指定をやめた場合は、待っていた出力も取り消す（次の範囲の指定で実行しない）
+  if (drawTool !== 'capture') {
+    pendingCapture = null;
+  }
+  updateCursorStyle();
+  if (!drawTool) {
+    cancelDrawing();
+  }
+  setHoveredElement(null);
+  updatePanel();
+}
+
+// 描画中のプレビューを破棄
+function cancelDrawing(): void {
+  drawStart = null;
+  if (drawPreview) {
+    drawPreview.remove();
+    drawPreview = null;
+  }
+  if (drawingShape) {
+    const id = drawingShape.id;
+    shapes = shapes.filter(s => s.id !== id);
+    drawingShape = null;
+    renderShapes();
+  }
+}
+
+// ドラッグ範囲をプレビューに反映
+function updateDrawPreview(x: number, y: number): void {
+  if (!drawStart || !drawPreview) return;
+  drawPreview.style.setProperty('top', `${Math.min(drawStart.y, y)}px`, 'important');
+  drawPreview.style.setProperty('left', `${Math.min(drawStart.x, x)}px`, 'important');
+  drawPreview.style.setProperty('width', `${Math.abs(x - drawStart.x)}px`, 'important');
+  drawPreview.style.setProperty('height', `${Math.abs(y - drawStart.y)}px`, 'important');
+}
+
+// 図形の紐付け先の原点（紐付け先がない場合はページ原点）
+function getShapeOrigin(shape: Shape): { x: number; y: number } {
+  const target = shape.attachedTo ? selectedElements.find(e => e.id === shape.attachedTo) : null;
+  return target ? { x: target.rect.left, y: target.rect.top } : { x: 0, y: 0 };
+}
+
+// 図形の位置をページ座標に解決
+function resolveShapes(): ResolvedShape[] {
+  return shapes.map(shape => {
+    const origin = getShapeOrigin(shape);
+    return {
+      shape,
+      points: {
+        x1: shape.x1 + origin.x,
+        y1: shape.y1 + origin.y,
+        x2: shape.x2 + origin.x,
+        y2: shape.y2 + origin.y,
+      },
+      hex: shape.color,
+    };
+  });
+}
+
+// 図形レイヤーの大きさ（ページ全体）を読み取る
+function readShapeLayerSize(): { width: number; height: number } {
+  const body = document.body;
+  const html = document.documentElement;
+  return {
+    width: Math.max(body.scrollWidth, html.scrollWidth),
+    height: Math.max(body.scrollHeight, html.scrollHeight),
+  };
+}
+
+// 図形レイヤーを更新（layerSizeを渡さない場合はここで読み取る）
+function renderShapes(layerSize: { width: number; height: number } = readShapeLayerSize()): void {
+  if (!shapeLayer) return;
+  renderShapeLayer(shapeLayer, resolveShapes(), layerSize.width, layerSize.height);
+}
+
+// 指定位置を含む最も内側の注釈（図形の紐付け先の候補）
+function findAnnotationAt(x: number, y: number): SelectedElement | null {
+  let best: SelectedElement | null = null;
   selectedElements.forEach(el => {
-    const element = document.querySelector(`[data-wdh-id="${el.id}"]`) as HTMLElement;
-    const frame = overlayContainer?.querySelector(`[data-wdh-frame="${el.id}"]`) as HTMLElement;
-    const badge = overlayContainer?.querySelector(`[data-wdh-badge="${el.id}"]`) as HTMLElement;
-
-    if (element && frame && badge) {
-      const rect = element.getBoundingClientRect();
-      // オーバーレイコンテナがbodyのmargin/paddingを打ち消しているため、単純な計算でOK
-      const top = rect.top + window.scrollY;
-      const left = rect.left + window.scrollX;
-      const borderWidth = 3;
-      const padding = el.padding ?? 0;
-
-      // 枠の位置更新（content-box基準）
-      const frameTop = top - borderWidth - padding;
-      const frameLeft = left - borderWidth - padding;
-      frame.style.setProperty('top', `${frameTop}px`, 'important');
-      frame.style.setProperty('left', `${frameLeft}px`, 'important');
-      frame.style.setProperty('width', `${rect.width + padding * 2}px`, 'important');
-      frame.style.setProperty('height', `${rect.height + padding * 2}px`, 'important');
-
-      // バッジの位置更新（枠の外側角にバッジの中心を配置）
-      const badgeWidth = calculateBadgeWidth(el.label);
-      const badgeHeight = 28;
-      badge.style.setProperty('top', `${top - padding - borderWidth - badgeHeight / 2}px`, 'important');
-      badge.style.setProperty('left', `${left - padding - borderWidth - badgeWidth / 2}px`, 'important');
-      badge.style.setProperty('width', `${badgeWidth}px`, 'important');
-
-      // 状態も更新
-      el.rect = {
-        top,
-        left,
-        width: rect.width,
-        height: rect.height,
-      };
+    if (!isAttached(el)) return;
+    const { top, left, width, height } = el.rect;
+    if (x < left || x > left + width || y < top || y > top + height) return;
+    if (!best || width * height < best.rect.width * best.rect.height) {
+      best = el;
     }
   });
+  return best;
 }
 
-// 要素を選択
-function selectElement(element: HTMLElement): void {
-  // 既に選択されている場合は無視
-  if (element.dataset.wdhId) {
-    return;
-  }
+// 図形の描画を開始（開始位置を含む注釈があれば紐付ける）
+function startDrawingShape(type: ShapeType, x: number, y: number): void {
+  // 描画した図形が小さすぎて破棄された場合、この記録は現在と同じ状態として元に戻す際に読み飛ばされる
+  recordHistory();
+  const target = findAnnotationAt(x, y);
+  const originX = target ? target.rect.left : 0;
+  const originY = target ? target.rect.top : 0;
+
+  drawingShape = {
+    id: generateId(),
+    type,
+    color: getDefaultColor(),
+    attachedTo: target?.id ?? null,
+    x1: x - originX,
+    y1: y - originY,
+    x2: x - originX,
+    y2: y - originY,
+    text: type === 'callout' ? 'テキスト' : '',
+  };
+  shapes.push(drawingShape);
+  renderShapes();
+}
 
-  // パネルやオーバーレイコンテナは選択不可
-  if (element.closest('.wdh-panel') || element.closest('.wdh-overlay-container')) {
-    return;
-  }
+// 描画中の図形の終点を更新
+function updateDrawingShape(x: number, y: number): void {
+  if (!drawingShape) return;
+  const origin = getShapeOrigin(drawingShape);
+  drawingShape.x2 = x - origin.x;
+  drawingShape.y2 = y - origin.y;
+  renderShapes();
+}
 
-  // フォーカスモード時は、フォーカス中の要素の子孫のみ選択可能
-  if (focusedElementId) {
-    const focusedElement = document.querySelector(`[data-wdh-id="${focusedElementId}"]`);
-    if (focusedElement && !focusedElement.contains(element)) {
-      return; // フォーカス要素外はクリック無効
+// 図形の描画を確定
+function finishDrawingShape(): void {
+  const shape = drawingShape;
+  if (!shape) return;
+  drawingShape = null;
+
+  const width = Math.abs(shape.x2 - shape.x1);
+  const height = Math.abs(shape.y2 - shape.y1);
+  if (shape.type === 'callout') {
+    // クリックだけの場合は既定サイズの吹き出しにする
+    if (width < 5 || height < 5) {
+      shape.x2 = shape.x1 + 160;
+      shape.y2 = shape.y1 + 48;
     }
+    // 左上・右下の順にそろえる
+    [shape.x1, shape.x2] = [Math.min(shape.x1, shape.x2), Math.max(shape.x1, shape.x2)];
+    [shape.y1, shape.y2] = [Math.min(shape.y1, shape.y2), Math.max(shape.y1, shape.y2)];
+  } else if (Math.hypot(width, height) < 5) {
+    // 短すぎる線は誤操作とみなす
+    shapes = shapes.filter(s => s.id !== shape.id);
+    renderShapes();
+    return;
   }
 
-  const id = generateId();
+  renderShapes();
+  updatePanel();
+  saveState();
+}
 
-  // フォーカスモード時は「親ラベル-連番」形式
-  let label: string;
-  let parentId: string | null = null;
+// 図形を削除
+function removeShape(id: string): void {
+  recordHistory();
+  shapes = shapes.filter(s => s.id !== id);
+  renderShapes();
+  updatePanel();
+  saveState();
+}
 
-  if (focusedElementId) {
-    const parentElement = selectedElements.find(e => e.id === focusedElementId);
-    if (parentElement) {
-      label = `${parentElement.label}-${focusedSubNumber++}`;
-      parentId = focusedElementId;
-    } else {
-      label = String(nextNumber++);
-    }
-  } else {
-    label = String(nextNumber++);
+// 図形の色を変更
+function changeShapeColor(id: string, color: FrameColor): void {
+  const shape = shapes.find(s => s.id === id);
+  if (!shape) return;
+
+  recordHistory();
+  shape.color = color;
+  renderShapes();
+  updatePanel();
+  saveState();
+}
+
+// 吹き出しの本文を更新
+function updateShapeText(id: string, text: string): void {
+  const shape = shapes.find(s => s.id === id);
+  if (!shape) return;
+
+  recordHistory(`shape-text:${id}`);
+  shape.text = text;
+  renderShapes();
+  saveState();
+}
+
+// 見た目の位置は変えずに図形の座標の基準だけを切り替える
+function rebaseShape(shape: Shape, annotationId: string | null): void {
+  const from = getShapeOrigin(shape);
+  shape.attachedTo = annotationId;
+  const to = getShapeOrigin(shape);
+  shape.x1 += from.x - to.x;
+  shape.y1 += from.y - to.y;
+  shape.x2 += from.x - to.x;
+  shape.y2 += from.y - to.y;
+}
+
+// 図形の紐付け先を変更
+function attachShape(id: string, annotationId: string | null): void {
+  const shape = shapes.find(s => s.id === id);
+  if (!shape) return;
+
+  recordHistory();
+  rebaseShape(shape, annotationId);
+  renderShapes();
+  saveState();
+}
+
+// 削除される注釈に紐付いた図形を、現在の位置のままページ座標に切り替える
+function detachShapesFrom(ids: string[]): void {
+  shapes
+    .filter(shape => shape.attachedTo && ids.includes(shape.attachedTo))
+    .forEach(shape => rebaseShape(shape, null));
+  renderShapes();
+}
+
+// 要素を新しい注釈として選択できるか
+function isSelectable(element: HTMLElement): boolean {
+  // 既に選択されている場合は無視
+  if (element.dataset.wdhId) {
+    return false;
   }
 
-  const color: FrameColor = 'red'; // デフォルトは赤
-  const padding = 0; // デフォルトの余白
+  // パネルやオーバーレイ（UIのホスト）は選択不可
+  if (isUiHost(element)) {
+    return false;
+  }
 
-  // 要素にIDを付与
-  element.dataset.wdhId = id;
+  // フォーカスモード時は、フォーカス中の要素の子孫のみ選択可能
+  const boundary = getFocusBoundary();
+  return !boundary || containsComposed(boundary, element);
+}
 
-  // 要素の位置を取得（オーバーレイコンテナがbodyのmargin/paddingを打ち消しているため単純計算でOK）
-  const rect = element.getBoundingClientRect();
-  const top = rect.top + window.scrollY;
-  const left = rect.left + window.scrollX;
+// フォーカスモード時に選択できる範囲（フォーカス中の要素）
+function getFocusBoundary(): HTMLElement | null {
+  return getAnnotatedElement(focusedElementId);
+}
+
+// 要素を選択
+function selectElement(element: HTMLElement): void {
+  if (!isSelectable(element)) {
+    return;
+  }
 
-  // 枠オーバーレイを作成してコンテナに追加
-  const frame = createFrameOverlay(id, top, left, rect.width, rect.height, color, padding);
-  overlayContainer?.appendChild(frame);
+  recordHistory();
 
-  // 番号バッジを作成してコンテナに追加
-  const badge = createNumberBadge(id, label, top, left, color, padding);
-  overlayContainer?.appendChild(badge);
+  const id = generateId();
+  const { label, parentId } = takeNextLabel();
 
   const selectedElement: SelectedElement = {
     id,
+    kind: 'element',
     label,
+    customLabel: false,
     parentId,
     selector: getSelector(element),
     tagName: element.tagName.toLowerCase(),
-    color,
-    padding,
-    rect: {
-      top,
-      left,
-      width: rect.width,
-      height: rect.height,
-    },
+    color: getDefaultColor(),
+    strokeStyle: 'solid',
+    strokeWidth: 3,
+    fillOpacity: 0,
+    padding: 0, // デフォルトの余白
+    badgeAnchor: 'auto',
+    badgeSide: 'edge',
+    description: '',
+    fingerprint: createFingerprint(element),
+    match: { status: 'ok', confidence: 1 },
+    rect: { top: 0, left: 0, width: 0, height: 0 }, // attachElementで現在の位置に更新
   };
 
+  // 要素にIDを付与して枠とバッジを作成
+  attachElement(selectedElement, element);
   selectedElements.push(selectedElement);
+  layoutBadgeOverlays();
   updatePanel();
   saveState();
 }
 
 // 要素の選択を解除
 function deselectElement(id: string): void {
-  const element = document.querySelector(`[data-wdh-id="${id}"]`) as HTMLElement;
-  if (element) {
-    delete element.dataset.wdhId;
-  }
+  const target = selectedElements.find(e => e.id === id);
+  if (!target) return;
 
-  // 枠とバッジを削除（コンテナから）
-  const frame = overlayContainer?.querySelector(`[data-wdh-frame="${id}"]`);
-  if (frame) {
-    frame.remove();
-  }
+  recordHistory();
+
+  // 子孫も一緒に削除（親のない注釈を残さない）
+  const ids = [id, ...getDescendants(id).map(e => e.id)];
 
-  const badge = overlayContainer?.querySelector(`[data-wdh-badge="${id}"]`);
-  if (badge) {
-    badge.remove();
+  // フォーカス中の要素を削除した場合は親の階層に戻る
+  if (focusedElementId && ids.includes(focusedElementId)) {
+    setFocus(target.parentId);
   }
 
-  selectedElements = selectedElements.filter(e => e.id !== id);
+  removeAnnotations(ids);
   updatePanel();
   saveState();
 }
 
+// 注釈の枠・バッジと要素のdata属性を削除して一覧から除く
+function removeAnnotations(ids: string[]): void {
+  if (reattachingId && ids.includes(reattachingId)) {
+    reattachingId = null;
+  }
+
+  ids.forEach(id => {
+    const element = getAnnotatedElement(id);
+    if (element) {
+      delete element.dataset.wdhId;
+      elementWatcher?.unobserve(element);
+    }
+
+    // 枠とバッジを削除（コンテナから）
+    removeOverlay(id);
+  });
+
+  detachShapesFrom(ids);
+  selectedElements = selectedElements.filter(e => !ids.includes(e.id));
+  updateHighlightBoxes();
+  // 空いた場所に他のバッジを戻す
+  layoutBadgeOverlays();
+}
+
 // ラベルを更新
 function updateLabel(id: string, label: string): void {
   const element = selectedElements.find(e => e.id === id);
   if (!element) return;
 
+  recordHistory(`label:${id}`);
   element.label = label;
+  element.customLabel = true;
+  refreshOverlay(element);
+  saveState();
+}
 
-  // バッジのテキストとサイズを更新
-  const badge = overlayContainer?.querySelector(`[data-wdh-badge="${id}"]`) as HTMLElement;
-  if (badge) {
-    badge.textContent = label;
-    // サイズを再計算
-    const badgeWidth = calculateBadgeWidth(label);
-    const padding = element.padding ?? 0;
-    const borderWidth = 3;
-    badge.style.setProperty('width', `${badgeWidth}px`, 'important');
-    badge.style.setProperty('left', `${element.rect.left - padding - borderWidth - badgeWidth / 2}px`, 'important');
+// 一覧の順に番号を振り直す（子のラベルも親の新しい番号に合わせる）
+function renumber(): void {
+  if (selectedElements.length === 0) return;
+
+  recordHistory();
+  const labels = renumberLabels(selectedElements, keepCustomLabels, numbering);
+  selectedElements.forEach(el => {
+    const label = labels.get(el.id);
+    if (label === undefined || (keepCustomLabels && el.customLabel)) return;
+    el.label = label;
+    el.customLabel = false;
+    refreshOverlay(el);
+  });
+
+  // 連番を振り直し後のラベルに合わせる
+  nextNumber = getNextNumber(null);
+  if (focusedElementId) {
+    focusedSubNumber = getNextNumber(focusedElementId);
   }
+
+  updatePanel();
+  saveState();
+  showToast('番号を振り直しました');
+}
+
+// 番号の書式を変更（既存のラベルは「番号を振り直す」で新しい書式にそろえる）
+function setNumbering(scheme: NumberingScheme): void {
+  numbering = scheme;
+  // 書式が変わっても既存のラベルから連番を続ける
+  nextNumber = getNextNumber(null);
+  if (focusedElementId) {
+    focusedSubNumber = getNextNumber(focusedElementId);
+  }
+  updatePanel();
+  saveState();
+}
+
+// 振り直しで手動のラベルを保持するかを変更
+function setKeepCustomLabels(keep: boolean): void {
+  keepCustomLabels = keep;
+  saveState();
+}
+
+// 注釈を兄弟の中で並べ替え（targetIdの前または後ろに移動）
+// selectedElementsの順序が一覧・出力・振り直しの順序になる
+function moveAnnotation(id: string, targetId: string, position: 'before' | 'after'): void {
+  const el = selectedElements.find(e => e.id === id);
+  const target = selectedElements.find(e => e.id === targetId);
+  if (!el || !target || el === target || el.parentId !== target.parentId) return;
+
+  recordHistory();
+  selectedElements = selectedElements.filter(e => e !== el);
+  const targetIndex = selectedElements.indexOf(target);
+  selectedElements.splice(position === 'before' ? targetIndex : targetIndex + 1, 0, el);
+
+  updatePanel();
   saveState();
 }
 
@@ -561,84 +1637,142 @@ function updatePadding(id: string, padding: number): void {
   const el = selectedElements.find(e => e.id === id);
   if (!el) return;
 
+  recordHistory(`padding:${id}`);
   el.padding = padding;
-  const borderWidth = 3;
-
-  // 枠のサイズを更新
-  const frameTop = el.rect.top - borderWidth - padding;
-  const frameLeft = el.rect.left - borderWidth - padding;
-  const frame = overlayContainer?.querySelector(`[data-wdh-frame="${id}"]`) as HTMLElement;
-  if (frame) {
-    frame.style.setProperty('top', `${frameTop}px`, 'important');
-    frame.style.setProperty('left', `${frameLeft}px`, 'important');
-    frame.style.setProperty('width', `${el.rect.width + borderWidth * 2 + padding * 2}px`, 'important');
-    frame.style.setProperty('height', `${el.rect.height + borderWidth * 2 + padding * 2}px`, 'important');
-  }
-
-  // バッジの位置を更新（枠の外側角にバッジの中心を配置）
-  const badge = overlayContainer?.querySelector(`[data-wdh-badge="${id}"]`) as HTMLElement;
-  if (badge) {
-    const badgeWidth = calculateBadgeWidth(el.label);
-    const badgeHeight = 28;
-    badge.style.setProperty('top', `${el.rect.top - padding - borderWidth - badgeHeight / 2}px`, 'important');
-    badge.style.setProperty('left', `${el.rect.left - padding - borderWidth - badgeWidth / 2}px`, 'important');
-    badge.style.setProperty('width', `${badgeWidth}px`, 'important');
-  }
+  refreshOverlay(el);
+  saveState();
+}
+
+// 説明文を更新
+function updateDescription(id: string, description: string): void {
+  const el = selectedElements.find(e => e.id === id);
+  if (!el) return;
+
+  recordHistory(`description:${id}`);
+  el.description = description;
+  saveState();
+}
 
+// 凡例の配置を変更
+function setLegendPosition(position: LegendPosition): void {
+  legendPosition = position;
   saveState();
 }
 
+// 仕様表の出力形式を変更
+function setTableFormat(format: TableFormat): void {
+  tableFormat = format;
+  saveState();
+}
+
+// 凡例に表示する要素を階層順（親の直後に子）で取得（parentIdを指定した場合はその子孫のみ）
+function getLegendItems(parentId: string | null): LegendItem[] {
+  const items: LegendItem[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    selectedElements
+      .filter(e => e.parentId === parentId)
+      .forEach(el => {
+        items.push({
+          label: el.label,
+          description: el.description ?? '',
+          tagName: el.kind === 'region' ? '' : el.tagName,
+          hex: el.color,
+          depth,
+        });
+        visit(el.id, depth + 1);
+      });
+  };
+  // 注釈を切り出した画像には親の枠は含まれないため、子孫のみ載せる
+  visit(parentId, 0);
+  return items;
+}
+
 // 要素までスクロール
 function scrollToElement(id: string): void {
-  const element = document.querySelector(`[data-wdh-id="${id}"]`) as HTMLElement;
+  const el = selectedElements.find(e => e.id === id);
+  if (el?.kind === 'region') {
+    // 範囲注釈は中心が画面中央に来るようにスクロール
+    window.scrollTo({
+      top: el.rect.top + el.rect.height / 2 - window.innerHeight / 2,
+      left: el.rect.left + el.rect.width / 2 - window.innerWidth / 2,
+      behavior: 'smooth',
+    });
+    return;
+  }
+
+  const element = getAnnotatedElement(id);
   if (element) {
     element.scrollIntoView({ behavior: 'smooth', block: 'center' });
   }
 }
 
-// フォーカスモードを開始（サブセクション編集）
-function startFocus(id: string): void {
-  const element = selectedElements.find(e => e.id === id);
-  if (!element) return;
+// トップレベルから指定要素までの祖先の列（指定要素を含む）
+function getAncestorPath(id: string | null): SelectedElement[] {
+  const path: SelectedElement[] = [];
+  let current = selectedElements.find(e => e.id === id);
+  // 親子関係が循環していても止まるよう要素数を上限にする
+  while (current && path.length < selectedElements.length) {
+    path.unshift(current);
+    const parentId: string | null = current.parentId;
+    current = parentId ? selectedElements.find(e => e.id === parentId) : undefined;
+  }
+  return path;
+}
+
+// 指定要素の子孫（子、孫…）をすべて取得
+function getDescendants(id: string): SelectedElement[] {
+  const descendants: SelectedElement[] = [];
+  const visit = (parentId: string) => {
+    selectedElements
+      .filter(e => e.parentId === parentId && !descendants.includes(e))
+      .forEach(el => {
+        descendants.push(el);
+        visit(el.id);
+      });
+  };
+  visit(id);
+  return descendants;
+}
 
+// フォーカス先を切り替え（nullでトップレベルに戻る）
+function setFocus(id: string | null): void {
   focusedElementId = id;
 
+  // 画像の範囲をフォーカスに合わせる（フォーカス中はその注釈、解除したらページ全体）
+  if (id && captureScopeKind === 'page') {
+    captureScopeKind = 'annotation';
+  } else if (!id && captureScopeKind === 'annotation') {
+    captureScopeKind = 'page';
+  }
+
   // 既存のサブ要素から最大番号を取得して次の番号を決定
-  const subElements = selectedElements.filter(e => e.parentId === id);
-  const maxSubNumber = subElements.reduce((max, el) => {
-    // "1-2" のような形式から最後の数字を取得
-    const match = el.label.match(/-(\d+)$/);
-    if (match) {
-      return Math.max(max, parseInt(match[1], 10));
-    }
-    return max;
-  }, 0);
-  focusedSubNumber = maxSubNumber + 1;
+  focusedSubNumber = id ? getNextNumber(id) : 1;
+
+  // フォーカス中の要素を強調表示（解除した場合は非表示）
+  updateHighlightBoxes();
+}
+
+// フォーカスモードを開始（サブセクション編集、どの階層の要素からでも可）
+function startFocus(id: string): void {
+  const element = selectedElements.find(e => e.id === id);
+  if (!element || id === focusedElementId || !canFocus(element)) return;
+
+  recordHistory();
+  setFocus(id);
 
   // フォーカス中の要素にスクロール
   scrollToElement(id);
 
-  // 要素を強調表示
-  const domElement = document.querySelector(`[data-wdh-id="${id}"]`) as HTMLElement;
-  if (domElement) {
-    domElement.classList.add('wdh-focused-element');
-  }
-
   updatePanel();
   saveState();
 }
 
 // フォーカスモードを終了
 function endFocus(): void {
-  if (focusedElementId) {
-    const domElement = document.querySelector(`[data-wdh-id="${focusedElementId}"]`) as HTMLElement;
-    if (domElement) {
-      domElement.classList.remove('wdh-focused-element');
-    }
-  }
+  if (!focusedElementId) return;
 
-  focusedElementId = null;
-  focusedSubNumber = 1;
+  recordHistory();
+  setFocus(null);
 
   updatePanel();
   saveState();
@@ -658,10 +1792,112 @@ function createPanel(): HTMLElement {
     </div>
     <div class="wdh-panel-content">
       <div class="wdh-element-list-container"></div>
+      <div class="wdh-shape-list-container"></div>
+    </div>
+    <div class="wdh-panel-options">
+      <div class="wdh-history-tools">
+        <button class="wdh-tool-btn" data-action="undo" title="元に戻す（Ctrl+Z）">↶</button>
+        <button class="wdh-tool-btn" data-action="redo" title="やり直し（Ctrl+Shift+Z）">↷</button>
+      </div>
+      <div class="wdh-renumber-tools">
+        <button class="wdh-tool-btn" data-action="renumber" title="一覧の順に番号を振り直す">番号を振り直す</button>
+        <label class="wdh-option-label" title="手動で変更したラベル（A など）は振り直さない">
+          <input type="checkbox" data-setting="keep-custom-labels" />
+          手動ラベルを保持
+        </label>
+      </div>
+      <div class="wdh-draw-tools" title="ドラッグして描画">
+        ${DRAW_TOOLS.map(t => `<button class="wdh-tool-btn" data-action="draw-tool" data-tool="${t.value}">${t.label}</button>`).join('')}
+      </div>
+      <label class="wdh-option-label">
+        凡例:
+        <select class="wdh-option-select" data-setting="legend-position">
+          ${LEGEND_POSITIONS.map(p => `<option value="${p.value}">${p.label}</option>`).join('')}
+        </select>
+      </label>
+      <label class="wdh-option-label">
+        表形式:
+        <select class="wdh-option-select" data-setting="table-format">
+          ${TABLE_FORMATS.map(f => `<option value="${f.value}">${f.label}</option>`).join('')}
+        </select>
+      </label>
+      <label class="wdh-option-label">
+        画像の範囲:
+        <select class="wdh-option-select" data-setting="capture-scope">
+          ${CAPTURE_SCOPES.map(s => `<option value="${s.value}">${s.label}</option>`).join('')}
+        </select>
+      </label>
+      <label class="wdh-option-label" title="スクリーンショットはページをスクロールしながら撮影し、Webフォントや画像をそのまま写す。固定配置の要素はページの先頭から撮る場合のみ先頭に写し、途中から始まる範囲では省く（失敗した場合はhtml2canvasで描画）">
+        画像の描画:
+        <select class="wdh-option-select" data-setting="capture-renderer">
+          ${CAPTURE_RENDERERS.map(r => `<option value="${r.value}">${r.label}</option>`).join('')}
+        </select>
+      </label>
     </div>
+    <details class="wdh-numbering-settings">
+      <summary class="wdh-numbering-settings-summary">番号の形式</summary>
+      <div class="wdh-numbering-settings-body">
+        ${DEFAULT_NUMBERING_SCHEME.levels.map((_, level) => `
+          <label class="wdh-option-label">
+            ${level === DEFAULT_NUMBERING_SCHEME.levels.length - 1 ? `第${level + 1}階層以降` : `第${level + 1}階層`}:
+            <select class="wdh-option-select" data-numbering-level="${level}">
+              ${NUMBERING_STYLES.map(style => `<option value="${style.value}">${style.label}</option>`).join('')}
+            </select>
+          </label>
+        `).join('')}
+        <label class="wdh-option-label">
+          区切り:
+          <select class="wdh-option-select" data-setting="numbering-separator">
+            ${NUMBERING_SEPARATORS.map(separator => `<option value="${separator}">${separator}</option>`).join('')}
+          </select>
+        </label>
+        <p class="wdh-numbering-preview"></p>
+      </div>
+    </details>
+    <details class="wdh-palette-settings">
+      <summary class="wdh-palette-settings-summary">カラーパレット</summary>
+      <div class="wdh-palette-settings-body">
+        <ul class="wdh-palette-list"></ul>
+        <div class="wdh-palette-add">
+          <input type="color" class="wdh-palette-add-color" value="#ff00ff" />
+          <input type="text" class="wdh-url-settings-input wdh-palette-add-label" placeholder="色の名前" />
+          <button class="wdh-tool-btn" data-action="palette-add">追加</button>
+        </div>
+        <button class="wdh-tool-btn" data-action="palette-reset">初期設定に戻す</button>
+      </div>
+    </details>
+    <details class="wdh-url-settings">
+      <summary class="wdh-url-settings-summary">URL設定</summary>
+      <div class="wdh-url-settings-body">
+        <label class="wdh-url-settings-check">
+          <input type="checkbox" data-setting="ignore-query" />
+          クエリ文字列を無視
+        </label>
+        <label class="wdh-url-settings-check">
+          <input type="checkbox" data-setting="ignore-hash" />
+          ハッシュ（#以降）を無視
+        </label>
+        <label class="wdh-url-settings-field">
+          無視するパラメータ（カンマ区切り）
+          <input type="text" class="wdh-url-settings-input" data-setting="ignored-params" placeholder="token, sessionid" />
+        </label>
+        <label class="wdh-url-settings-field">
+          同じ画面とみなすURLパターン（1行に1つ）
+          <textarea class="wdh-url-settings-input" data-setting="url-patterns" rows="2" placeholder="/users/*/edit"></textarea>
+        </label>
+        <p class="wdh-storage-key"></p>
+      </div>
+    </details>
     <div class="wdh-panel-actions">
       <button class="wdh-btn wdh-btn-primary" data-action="export">PNG出力</button>
+      <button class="wdh-btn wdh-btn-primary" data-action="export-batch" title="最上位の注釈（フォーカス中はその子）ごとの画像と全体の画像をZIPで出力">一括出力</button>
+      <button class="wdh-btn wdh-btn-primary" data-action="export-pdf" title="表紙・全体の画像・注釈ごとの切り出しと子の一覧をPDFで出力">PDF出力</button>
+      <button class="wdh-btn wdh-btn-primary" data-action="export-svg" title="ページの画像に注釈を編集できる図形として重ねたSVGを出力（範囲は画像の範囲の設定に従う）">SVG出力</button>
+      <button class="wdh-btn wdh-btn-primary" data-action="export-table">表出力</button>
       <button class="wdh-btn wdh-btn-primary" data-action="copy">コピー</button>
+      <button class="wdh-btn wdh-btn-primary" data-action="copy-table">表コピー</button>
+      <button class="wdh-btn wdh-btn-secondary" data-action="export-json">JSON保存</button>
+      <button class="wdh-btn wdh-btn-secondary" data-action="import-json">JSON読込</button>
       <button class="wdh-btn wdh-btn-danger" data-action="clear">クリア</button>
     </div>
   `;
@@ -672,16 +1908,64 @@ function createPanel(): HTMLElement {
     const action = target.dataset.action || target.closest('[data-action]')?.getAttribute('data-action');
 
     // 入力欄クリック時は何もしない
-    if (target.tagName === 'INPUT') {
+    if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') {
       return;
     }
 
     if (action === 'close') {
       stopEditing();
+    } else if (action === 'renumber') {
+      renumber();
+    } else if (action === 'undo') {
+      undo();
+    } else if (action === 'redo') {
+      redo();
+    } else if (action === 'draw-tool') {
+      const tool = target.dataset.tool as DrawTool;
+      if (tool) {
+        setDrawTool(tool);
+      }
+    } else if (action === 'remove-shape') {
+      const id = target.dataset.id;
+      if (id) {
+        removeShape(id);
+      }
+    } else if (action === 'shape-color') {
+      const id = target.dataset.id;
+      const color = target.dataset.color as FrameColor;
+      if (id && color) {
+        changeShapeColor(id, color);
+      }
+    } else if (action === 'palette-add') {
+      const colorInput = panelEl.querySelector('.wdh-palette-add-color') as HTMLInputElement;
+      const labelInput = panelEl.querySelector('.wdh-palette-add-label') as HTMLInputElement;
+      addPaletteColor(colorInput.value, labelInput.value);
+      labelInput.value = '';
+    } else if (action === 'palette-remove') {
+      const color = target.dataset.color;
+      if (color) {
+        removePaletteColor(color);
+      }
+    } else if (action === 'palette-reset') {
+      savePalette(DEFAULT_PALETTE);
     } else if (action === 'export') {
-      exportImage();
+      requestCapture(scope => exportCapture(scope, 'download'));
+    } else if (action === 'export-batch') {
+      exportBatchImages();
+    } else if (action === 'export-pdf') {
+      exportPdf();
+    } else if (action === 'export-svg') {
+      requestCapture(exportSvg);
+    } else if (action === 'export-table') {
+      exportTable();
     } else if (action === 'copy') {
-      copyImageToClipboard();
+      requestCapture(scope => exportCapture(scope, 'clipboard'));
+    } else if (action === 'copy-table') {
+      copyTableToClipboard();
+    } else if (action === 'export-json') {
+      exportJson();
+    } else if (action === 'import-json') {
+      importJson();
     } else if (action === 'clear') {
       clearAllSelections();
     } else if (action === 'remove') {
@@ -708,6 +1992,18 @@ function createPanel(): HTMLElement {
       }
     } else if (action === 'end-focus') {
       endFocus();
+    } else if (action === 'reattach') {
+      const id = target.dataset.id;
+      if (id) {
+        startReattach(id);
+      }
+    } else if (action === 'cancel-reattach') {
+      cancelReattach();
+    } else if (action === 'confirm-match') {
+      const id = target.dataset.id;
+      if (id) {
+        confirmMatch(id);
+      }
     }
   });
 
@@ -718,6 +2014,16 @@ function createPanel(): HTMLElement {
       if (id) {
         updateLabel(id, target.value);
       }
+    } else if (target.classList.contains('wdh-description-input')) {
+      const id = target.dataset.id;
+      if (id) {
+        updateDescription(id, target.value);
+      }
+    } else if (target.classList.contains('wdh-shape-text-input')) {
+      const id = target.dataset.id;
+      if (id) {
+        updateShapeText(id, target.value);
+      }
     } else if (target.classList.contains('wdh-padding-input')) {
       const id = target.dataset.id;
       if (id) {
@@ -727,6 +2033,99 @@ function createPanel(): HTMLElement {
     }
   });
 
+  panelEl.addEventListener('change', (e) => {
+    const target = e.target as HTMLSelectElement;
+    if (target.dataset.setting === 'legend-position') {
+      setLegendPosition(target.value as LegendPosition);
+    } else if (target.dataset.setting === 'table-format') {
+      setTableFormat(target.value as TableFormat);
+    } else if (target.dataset.setting === 'capture-scope') {
+      setCaptureScopeKind(target.value as CaptureScopeKind);
+    } else if (target.dataset.setting === 'capture-renderer') {
+      saveCaptureRenderer(target.value as CaptureRenderer);
+    } else if (target.dataset.numberingLevel !== undefined || target.dataset.setting === 'numbering-separator') {
+      setNumbering(readNumberingSettings(panelEl));
+    } else if (target.dataset.setting === 'keep-custom-labels') {
+      setKeepCustomLabels((e.target as HTMLInputElement).checked);
+    } else if (target.classList.contains('wdh-color-input')) {
+      const id = target.dataset.id;
+      if (id) {
+        changeElementColor(id, target.value.toLowerCase());
+      }
+    } else if (target.classList.contains('wdh-stroke-input')) {
+      const id = target.dataset.id;
+      if (id) {
+        updateStrokeSetting(id, target.dataset.stroke, target.value);
+      }
+    } else if (target.classList.contains('wdh-badge-input')) {
+      const id = target.dataset.id;
+      if (id) {
+        updateBadgePlacement(id, target.dataset.badge === 'badgeSide'
+          ? { badgeSide: target.value as BadgeSide }
+          : { badgeAnchor: target.value as BadgeAnchor });
+      }
+    } else if (target.classList.contains('wdh-shape-attach')) {
+      const id = target.dataset.id;
+      if (id) {
+        attachShape(id, target.value || null);
+      }
+    } else if (target.closest('.wdh-url-settings')) {
+      saveUrlRules(readUrlSettings(panelEl));
+    }
+  });
+
+  // 一覧の並べ替え（ハンドルをドラッグして兄弟の間に移動）
+  let draggingId: string | null = null;
+
+  // ドロップ先の項目と、項目の上半分・下半分のどちらに落とすか
+  const getDropTarget = (e: DragEvent): { item: HTMLElement; position: 'before' | 'after' } | null => {
+    const item = (e.target as HTMLElement).closest('[data-sortable]') as HTMLElement | null;
+    if (!item || !draggingId || item.dataset.id === draggingId) return null;
+    const rect = item.getBoundingClientRect();
+    return { item, position: e.clientY < rect.top + rect.height / 2 ? 'before' : 'after' };
+  };
+
+  const clearDropIndicators = () => {
+    panelEl.querySelectorAll('.wdh-drop-before, .wdh-drop-after').forEach(item => {
+      item.classList.remove('wdh-drop-before', 'wdh-drop-after');
+    });
+  };
+
+  panelEl.addEventListener('dragstart', (e) => {
+    const handle = (e.target as HTMLElement).closest('.wdh-drag-handle') as HTMLElement | null;
+    const item = handle?.closest('[data-sortable]') as HTMLElement | null;
+    if (!item || !e.dataTransfer) return;
+    draggingId = item.dataset.id ?? null;
+    e.dataTransfer.effectAllowed = 'move';
+    e.dataTransfer.setData('text/plain', draggingId ?? '');
+    // ハンドルだけでなく項目全体をドラッグ中の画像にする
+    e.dataTransfer.setDragImage(item, 16, 16);
+    item.classList.add('wdh-dragging');
+  });
+
+  panelEl.addEventListener('dragover', (e) => {
+    const dropTarget = getDropTarget(e);
+    clearDropIndicators();
+    if (!dropTarget) return;
+    e.preventDefault();
+    dropTarget.item.classList.add(dropTarget.position === 'before' ? 'wdh-drop-before' : 'wdh-drop-after');
+  });
+
+  panelEl.addEventListener('drop', (e) => {
+    const dropTarget = getDropTarget(e);
+    const id = draggingId;
+    clearDropIndicators();
+    if (!dropTarget || !id || !dropTarget.item.dataset.id) return;
+    e.preventDefault();
+    moveAnnotation(id, dropTarget.item.dataset.id, dropTarget.position);
+  });
+
+  panelEl.addEventListener('dragend', () => {
+    draggingId = null;
+    clearDropIndicators();
+    panelEl.querySelector('.wdh-dragging')?.classList.remove('wdh-dragging');
+  });
+
   // ドラッグ機能
   const header = panelEl.querySelector('.wdh-panel-header') as HTMLElement;
   let isDragging = false;
@@ -734,7 +2133,7 @@ function createPanel(): HTMLElement {
   let dragOffsetY = 0;
 
   header.addEventListener('mousedown', (e) => {
-    // 閉じるボタンや戻るボタンのクリックは除外
+    // 閉じるボタンやパンくずリストのクリックは除外
     if ((e.target as HTMLElement).closest('button')) {
       return;
     }
@@ -771,6 +2170,153 @@ function createPanel(): HTMLElement {
   return panelEl;
 }
 
+// パネルのURL設定欄からルールを読み取る
+function readUrlSettings(panelEl: HTMLElement): UrlMatchRules {
+  const getInput = (setting: string) => panelEl.querySelector(`[data-setting="${setting}"]`) as HTMLInputElement;
+  const splitList = (value: string, separator: RegExp) => value
+    .split(separator)
+    .map(v => v.trim())
+    .filter(v => v);
+
+  return {
+    ignoreQuery: getInput('ignore-query').checked,
+    ignoreHash: getInput('ignore-hash').checked,
+    ignoredParams: splitList(getInput('ignored-params').value, /[,\s]+/),
+    patterns: splitList(getInput('url-patterns').value, /\n/),
+  };
+}
+
+// 番号の形式の入力欄から設定を読み取り
+function readNumberingSettings(panelEl: HTMLElement): NumberingScheme {
+  const levels = Array.from(panelEl.querySelectorAll<HTMLSelectElement>('[data-numbering-level]'))
+    .map(select => select.value as NumberingStyle);
+  const separatorSelect = panelEl.querySelector('[data-setting="numbering-separator"]') as HTMLSelectElement;
+  return {
+    levels,
+    separator: separatorSelect?.value || DEFAULT_NUMBERING_SCHEME.separator,
+  };
+}
+
+// パネルの番号の形式欄に現在の設定と例を反映
+function renderNumberingSettings(panelEl: HTMLElement): void {
+  panelEl.querySelectorAll<HTMLSelectElement>('[data-numbering-level]').forEach(select => {
+    const level = parseInt(select.dataset.numberingLevel ?? '0', 10);
+    select.value = numbering.levels[Math.min(level, numbering.levels.length - 1)] ?? 'decimal';
+  });
+  const separatorSelect = panelEl.querySelector('[data-setting="numbering-separator"]') as HTMLSelectElement;
+  if (separatorSelect) {
+    separatorSelect.value = numbering.separator;
+  }
+
+  // 各階層の2番目を並べた例（例: 2-B-ii）
+  const preview = panelEl.querySelector('.wdh-numbering-preview');
+  if (preview) {
+    let label: string | null = null;
+    for (let depth = 0; depth < DEFAULT_NUMBERING_SCHEME.levels.length; depth++) {
+      label = buildLabel(label, 2, depth, numbering);
+    }
+    preview.textContent = `例: ${label}`;
+  }
+}
+
+// パネルのURL設定欄に現在のルールを反映（入力中の欄は上書きしない）
+function renderUrlSettings(panelEl: HTMLElement): void {
+  const setValue = (setting: string, apply: (input: HTMLInputElement) => void) => {
+    const input = panelEl.querySelector(`[data-setting="${setting}"]`) as HTMLInputElement;
+    if (input && input !== getUiActiveElement()) {
+      apply(input);
+    }
+  };
+  setValue('ignore-query', input => { input.checked = urlRules.ignoreQuery; });
+  setValue('ignore-hash', input => { input.checked = urlRules.ignoreHash; });
+  setValue('ignored-params', input => { input.value = urlRules.ignoredParams.join(', '); });
+  setValue('url-patterns', input => { input.value = urlRules.patterns.join('\n'); });
+
+  const keyEl = panelEl.querySelector('.wdh-storage-key');
+  if (keyEl) {
+    keyEl.textContent = storageKey ? `保存キー: ${storageKey}` : '';
+  }
+}
+
+// パレットの色ボタンを作成（パレットにない色を使っている場合はその色のボタンも表示）
+function renderColorButtons(action: string, id: string, current: FrameColor): string {
+  const colors = palette.some(c => c.hex === current)
+    ? palette
+    : [...palette, { hex: current, label: current }];
+  return colors.map(c => `
+    <button
+      class="wdh-color-btn ${c.hex === current ? 'wdh-color-btn-active' : ''}"
+      data-action="${action}"
+      data-id="${escapeHtml(id)}"
+      data-color="${escapeHtml(c.hex)}"
+      style="background-color: ${escapeHtml(c.hex)};"
+      title="${escapeHtml(c.label)}"
+    ></button>
+  `).join('');
+}
+
+// パネルのカラーパレット欄を更新
+function renderPaletteSettings(panelEl: HTMLElement): void {
+  const list = panelEl.querySelector('.wdh-palette-list');
+  if (!list) return;
+  list.innerHTML = palette.map(c => `
+    <li class="wdh-palette-item">
+      <span class="wdh-palette-swatch" style="background-color: ${escapeHtml(c.hex)};"></span>
+      <span class="wdh-palette-name">${escapeHtml(c.label)}</span>
+      <span class="wdh-palette-hex">${escapeHtml(c.hex)}</span>
+      <button class="wdh-element-remove" data-action="palette-remove" data-color="${escapeHtml(c.hex)}" title="パレットから削除">&times;</button>
+    </li>
+  `).join('');
+}
+
+// パネルの図形一覧を更新
+function renderShapeList(): void {
+  const container = panel?.querySelector('.wdh-shape-list-container');
+  if (!container) return;
+
+  if (shapes.length === 0) {
+    container.innerHTML = '';
+    return;
+  }
+
+  const listHtml = shapes.map(shape => {
+    const typeLabel = SHAPE_TYPES.find(t => t.value === shape.type)?.label ?? '';
+    const colorButtons = renderColorButtons('shape-color', shape.id, shape.color);
+    const attachOptions = selectedElements
+      .filter(isAttached)
+      .map(el => `<option value="${escapeHtml(el.id)}" ${el.id === shape.attachedTo ? 'selected' : ''}>${escapeHtml(el.label)}</option>`)
+      .join('');
+    const textInput = shape.type === 'callout'
+      ? `<textarea class="wdh-shape-text-input" data-id="${escapeHtml(shape.id)}" rows="2">${escapeHtml(shape.text)}</textarea>`
+      : '';
+
+    return `
+      <li class="wdh-shape-item">
+        <div class="wdh-element-header">
+          <span class="wdh-shape-type">${typeLabel}</span>
+          <label class="wdh-option-label">
+            紐付け:
+            <select class="wdh-option-select wdh-shape-attach" data-id="${escapeHtml(shape.id)}">
+              <option value="" ${shape.attachedTo ? '' : 'selected'}>なし</option>
+              ${attachOptions}
+            </select>
+          </label>
+          <button class="wdh-element-remove" data-action="remove-shape" data-id="${escapeHtml(shape.id)}">&times;</button>
+        </div>
+        <div class="wdh-color-picker">
+          ${colorButtons}
+        </div>
+        ${textInput}
+      </li>
+    `;
+  }).join('');
+
+  container.innerHTML = `
+    <h4 class="wdh-section-title">図形</h4>
+    <ul class="wdh-element-list">${listHtml}</ul>
+  `;
+}
+
 // パネルを更新
 function updatePanel(): void {
   if (!panel) return;
@@ -778,29 +2324,56 @@ function updatePanel(): void {
   const container = panel.querySelector('.wdh-element-list-container');
   if (!container) return;
 
-  // パネルタイトルを更新
-  const titleEl = panel.querySelector('.wdh-panel-title');
+  // パネルタイトルを更新（フォーカスモード時はパンくずリストを表示）
+  const titleEl = panel.querySelector('.wdh-panel-title') as HTMLElement;
   if (titleEl) {
     if (focusedElementId) {
-      const focusedEl = selectedElements.find(e => e.id === focusedElementId);
-      titleEl.textContent = `サブセクション編集: ${focusedEl?.label || ''}`;
+      const crumbs = getAncestorPath(focusedElementId).map((el, i, path) => i === path.length - 1
+        ? `<span class="wdh-breadcrumb-current">${escapeHtml(el.label)}</span>`
+        : `<button class="wdh-breadcrumb-btn" data-action="focus" data-id="${escapeHtml(el.id)}">${escapeHtml(el.label)}</button>`
+      );
+      titleEl.innerHTML = [
+        '<button class="wdh-breadcrumb-btn" data-action="end-focus" title="トップレベルに戻る">全体</button>',
+        ...crumbs,
+      ].join('<span class="wdh-breadcrumb-separator">›</span>');
     } else {
       titleEl.textContent = '画面設計ヘルパー';
     }
   }
 
-  // フォーカスモード時は戻るボタンを表示
-  const headerEl = panel.querySelector('.wdh-panel-header');
-  const existingBackBtn = headerEl?.querySelector('.wdh-back-btn');
-  if (focusedElementId && !existingBackBtn && headerEl) {
-    const backBtn = document.createElement('button');
-    backBtn.className = 'wdh-back-btn';
-    backBtn.dataset.action = 'end-focus';
-    backBtn.textContent = '← 戻る';
-    headerEl.insertBefore(backBtn, headerEl.firstChild);
-  } else if (!focusedElementId && existingBackBtn) {
-    existingBackBtn.remove();
+  // 凡例の設定を反映
+  const legendSelect = panel.querySelector('[data-setting="legend-position"]') as HTMLSelectElement;
+  if (legendSelect) {
+    legendSelect.value = legendPosition;
+  }
+  const tableFormatSelect = panel.querySelector('[data-setting="table-format"]') as HTMLSelectElement;
+  if (tableFormatSelect) {
+    tableFormatSelect.value = tableFormat;
   }
+  const captureScopeSelect = panel.querySelector('[data-setting="capture-scope"]') as HTMLSelectElement;
+  if (captureScopeSelect) {
+    captureScopeSelect.value = captureScopeKind;
+  }
+  const captureRendererSelect = panel.querySelector('[data-setting="capture-renderer"]') as HTMLSelectElement;
+  if (captureRendererSelect) {
+    captureRendererSelect.value = captureRenderer;
+  }
+  const keepCustomLabelsCheck = panel.querySelector('[data-setting="keep-custom-labels"]') as HTMLInputElement;
+  if (keepCustomLabelsCheck) {
+    keepCustomLabelsCheck.checked = keepCustomLabels;
+  }
+  renderNumberingSettings(panel);
+  renderPaletteSettings(panel);
+  renderUrlSettings(panel);
+
+  // 描画ツールのボタン状態
+  panel.querySelectorAll<HTMLElement>('[data-action="draw-tool"]').forEach(btn => {
+    btn.classList.toggle('wdh-tool-btn-active', btn.dataset.tool === drawTool);
+  });
+
+  updateHistoryButtons();
+
+  renderShapeList();
 
   // フォーカスモード時は該当する要素のみ表示
   let elementsToShow: SelectedElement[];
@@ -832,22 +2405,25 @@ function updatePanel(): void {
   }
 
   const listHtml = elementsToShow.map(el => {
-    const hex = getColorHex(el.color);
-    const colorButtons = FRAME_COLORS.map(c => `
-      <button
-        class="wdh-color-btn ${c.value === el.color ? 'wdh-color-btn-active' : ''}"
-        data-action="color"
-        data-id="${el.id}"
-        data-color="${c.value}"
-        style="background-color: ${c.hex};"
-        title="${c.label}"
-      ></button>
-    `).join('');
-
-    // フォーカスボタン: 通常モードかつ親要素のみ
-    const isFocusable = !focusedElementId && el.parentId === null;
+    const hex = el.color;
+    const colorButtons = renderColorButtons('color', el.id, el.color);
+    const strokeStyleOptions = STROKE_STYLES
+      .map(s => `<option value="${s.value}" ${s.value === el.strokeStyle ? 'selected' : ''}>${s.label}</option>`)
+      .join('');
+    const badgeAnchorOptions = BADGE_ANCHORS
+      .map(a => `<option value="${a.value}" ${a.value === el.badgeAnchor ? 'selected' : ''}>${a.label}</option>`)
+      .join('');
+    const badgeSideOptions = BADGE_SIDES
+      .map(s => `<option value="${s.value}" ${s.value === el.badgeSide ? 'selected' : ''}>${s.label}</option>`)
+      .join('');
+    const fillOptions = FILL_OPACITIES
+      .map(f => `<option value="${f.value}" ${f.value === el.fillOpacity ? 'selected' : ''}>${f.label}</option>`)
+      .join('');
+
+    // フォーカスボタン: フォーカス中の要素以外はどの階層でも可（要素が見つからない場合と範囲注釈は不可）
+    const isFocusable = el.id !== focusedElementId && canFocus(el);
     const focusBtn = isFocusable
-      ? `<button class="wdh-focus-btn" data-action="focus" data-id="${el.id}" title="サブセクション編集">▶</button>`
+      ? `<button class="wdh-focus-btn" data-action="focus" data-id="${escapeHtml(el.id)}" title="サブセクション編集">▶</button>`
       : '';
 
     // 現在フォーカス中の親要素かどうか
@@ -855,30 +2431,65 @@ function updatePanel(): void {
 
     const currentPadding = el.padding ?? 0;
 
+    // 復元時に見つからない・一致度が低い要素の表示
+    let matchStatusHtml = '';
+    if (reattachingId === el.id) {
+      matchStatusHtml = `
+        <div class="wdh-match-status wdh-match-reattaching">
+          <span class="wdh-match-text">ページ上の要素をクリックしてください</span>
+          <button class="wdh-match-btn" data-action="cancel-reattach">キャンセル</button>
+        </div>
+      `;
+    } else if (el.match && el.match.status !== 'ok') {
+      const isMissing = !isAttached(el);
+      const gaveUp = (reattachFailures.get(el.id) ?? 0) >= MAX_REATTACH_ATTEMPTS;
+      const text = el.match.status === 'detached'
+        ? `要素がページから削除されました（${gaveUp ? '同じ要素が戻された場合のみ自動で付け直します' : '再び表示されると自動で付け直します'}）`
+        : isMissing
+          ? '要素が見つかりません'
+          : `一致度が低い要素です（${Math.round(el.match.confidence * 100)}%）`;
+      matchStatusHtml = `
+        <div class="wdh-match-status ${isMissing ? 'wdh-match-missing' : 'wdh-match-uncertain'}">
+          <span class="wdh-match-text">${text}</span>
+          ${isMissing ? '' : `<button class="wdh-match-btn" data-action="confirm-match" data-id="${escapeHtml(el.id)}">確定</button>`}
+          <button class="wdh-match-btn" data-action="reattach" data-id="${escapeHtml(el.id)}">再指定</button>
+        </div>
+      `;
+    }
+
+    // フォーカス中の親要素以外はドラッグで並べ替え可能
+    const sortableAttr = isFocusedParent ? '' : 'data-sortable';
+    const dragHandle = isFocusedParent
+      ? ''
+      : '<span class="wdh-drag-handle" draggable="true" title="ドラッグして並べ替え">⋮⋮</span>';
+
     return `
-      <li class="wdh-element-item wdh-clickable ${isFocusedParent ? 'wdh-focused-parent' : ''}" data-action="scroll" data-id="${el.id}">
+      <li class="wdh-element-item wdh-clickable ${isFocusedParent ? 'wdh-focused-parent' : ''}" data-action="scroll" data-id="${escapeHtml(el.id)}" ${sortableAttr}>
+        ${matchStatusHtml}
         <div class="wdh-element-header">
+          ${dragHandle}
           <input
             type="text"
             class="wdh-element-label"
-            data-id="${el.id}"
-            value="${el.label}"
-            style="color: ${hex}; border-color: ${hex};"
+            data-id="${escapeHtml(el.id)}"
+            value="${escapeHtml(el.label)}"
+            style="color: ${escapeHtml(hex)}; border-color: ${escapeHtml(hex)};"
           />
-          <span class="wdh-element-tag">&lt;${el.tagName}&gt;</span>
+          <span class="wdh-element-tag">${el.kind === 'region' ? '範囲' : `&lt;${escapeHtml(el.tagName)}&gt;`}</span>
           ${focusBtn}
-          <button class="wdh-element-remove" data-action="remove" data-id="${el.id}">&times;</button>
+          <button class="wdh-element-remove" data-action="remove" data-id="${escapeHtml(el.id)}">&times;</button>
         </div>
         <div class="wdh-controls-row">
           <div class="wdh-color-picker">
             ${colorButtons}
+            <input type="color" class="wdh-color-input" data-id="${escapeHtml(el.id)}" value="${escapeHtml(el.color)}" title="任意の色" />
           </div>
           <div class="wdh-padding-control">
             <label class="wdh-padding-label">余白:</label>
             <input
               type="number"
               class="wdh-padding-input"
-              data-id="${el.id}"
+              data-id="${escapeHtml(el.id)}"
               value="${currentPadding}"
               min="0"
               max="50"
@@ -886,6 +2497,41 @@ function updatePanel(): void {
             <span class="wdh-padding-unit">px</span>
           </div>
         </div>
+        <div class="wdh-controls-row wdh-stroke-row">
+          <label class="wdh-option-label">
+            線:
+            <select class="wdh-option-select wdh-stroke-input" data-id="${escapeHtml(el.id)}" data-stroke="strokeStyle">${strokeStyleOptions}</select>
+          </label>
+          <label class="wdh-option-label">
+            太さ:
+            <input
+              type="number"
+              class="wdh-stroke-width-input wdh-stroke-input"
+              data-id="${escapeHtml(el.id)}"
+              data-stroke="strokeWidth"
+              value="${el.strokeWidth}"
+              min="${STROKE_WIDTH_MIN}"
+              max="${STROKE_WIDTH_MAX}"
+            />
+          </label>
+          <label class="wdh-option-label">
+            塗り:
+            <select class="wdh-option-select wdh-stroke-input" data-id="${escapeHtml(el.id)}" data-stroke="fillOpacity">${fillOptions}</select>
+          </label>
+        </div>
+        <div class="wdh-controls-row wdh-stroke-row">
+          <label class="wdh-option-label">
+            番号:
+            <select class="wdh-option-select wdh-badge-input" data-id="${escapeHtml(el.id)}" data-badge="badgeAnchor">${badgeAnchorOptions}</select>
+          </label>
+          <select class="wdh-option-select wdh-badge-input" data-id="${escapeHtml(el.id)}" data-badge="badgeSide" title="枠の角に対する置き方">${badgeSideOptions}</select>
+        </div>
+        <textarea
+          class="wdh-description-input"
+          data-id="${escapeHtml(el.id)}"
+          rows="2"
+          placeholder="説明（凡例に表示）"
+        >${escapeHtml(el.description ?? '')}</textarea>
       </li>
     `;
   }).join('');
@@ -893,63 +2539,82 @@ function updatePanel(): void {
   container.innerHTML = `<ul class="wdh-element-list">${listHtml}</ul>`;
 }
 
-// 選択をクリア（フォーカスモード時はサブ要素のみ、通常時は全て）
+// 選択をクリア（フォーカスモード時はフォーカス要素の子孫のみ、通常時は全て）
 function clearAllSelections(): void {
+  recordHistory();
+  reattachingId = null;
+
   if (focusedElementId) {
-    // フォーカスモード時: サブ要素のみクリア
-    const subElements = selectedElements.filter(e => e.parentId === focusedElementId);
-    subElements.forEach(el => {
-      const element = document.querySelector(`[data-wdh-id="${el.id}"]`) as HTMLElement;
-      if (element) {
-        delete element.dataset.wdhId;
-      }
-      const frame = overlayContainer?.querySelector(`[data-wdh-frame="${el.id}"]`);
-      if (frame) frame.remove();
-      const badge = overlayContainer?.querySelector(`[data-wdh-badge="${el.id}"]`);
-      if (badge) badge.remove();
-    });
-    // サブ要素を配列から削除
-    selectedElements = selectedElements.filter(e => e.parentId !== focusedElementId);
+    // フォーカスモード時: フォーカス要素の子孫（孫以下も含む）のみクリア
+    removeAnnotations(getDescendants(focusedElementId).map(el => el.id));
     focusedSubNumber = 1;
     updatePanel();
     saveState();
   } else {
     // 通常モード: 全てクリア
-    const ids = selectedElements.map(e => e.id);
-    ids.forEach(id => {
-      const element = document.querySelector(`[data-wdh-id="${id}"]`) as HTMLElement;
-      if (element) {
-        delete element.dataset.wdhId;
-      }
-      const frame = overlayContainer?.querySelector(`[data-wdh-frame="${id}"]`);
-      if (frame) frame.remove();
-      const badge = overlayContainer?.querySelector(`[data-wdh-badge="${id}"]`);
-      if (badge) badge.remove();
-    });
+    detachAllElements();
     selectedElements = [];
+    shapes = [];
+    renderShapes();
     nextNumber = 1;
     focusedElementId = null;
     focusedSubNumber = 1;
     updatePanel();
-    clearState();
+    // 元に戻せるよう保存データは削除せず空の状態を保存
+    saveState();
   }
 }
 
-// 画像を出力
-async function exportImage(): Promise<void> {
-  if (!panel) return;
-
-  // ローディングオーバーレイを表示
-  const loadingOverlay = document.createElement('div');
-  loadingOverlay.className = 'wdh-overlay';
-  loadingOverlay.innerHTML = '<div class="wdh-overlay-text">画像を生成中...</div>';
-  document.body.appendChild(loadingOverlay);
+// 出力用に描く注釈（ページに枠とバッジを表示している注釈のみ、excludeIdsの注釈は除く）
+function getAnnotationDrawings(excludeIds: string[]): AnnotationDrawing[] {
+  const displayed = selectedElements.filter(el => overlays.has(el.id));
+  // 除く注釈も含めて配置を計算し、ページ上の表示と同じ位置にする
+  const placements = computeBadgePlacements(displayed);
+
+  return displayed.flatMap(el => {
+    const placement = placements.get(el.id);
+    if (!placement || excludeIds.includes(el.id)) return [];
+    const item = getBadgeLayoutItem(el);
+    return [{
+      id: el.id,
+      frame: item.frame,
+      color: el.color,
+      strokeStyle: el.strokeStyle,
+      strokeWidth: el.strokeWidth,
+      fillOpacity: el.fillOpacity,
+      label: el.label,
+      badge: {
+        left: placement.left,
+        top: placement.top,
+        width: item.width,
+        height: item.height,
+      },
+      badgeBorderWidth: BADGE_BORDER_WIDTH,
+      leader: placement.leader,
+    }];
+  });
+}
 
-  // パネルを一時的に非表示
-  panel.style.display = 'none';
+// 出力用キャンバス（ページのareaの範囲をscale倍で描いたもの）に注釈の枠・バッジと図形を描画
+// html2canvasやスクリーンショットはdevicePixelRatio倍で描画するため、倍率はキャンバスの幅から求める
+function drawOverlaysOnCanvas(canvas: HTMLCanvasElement, area: LayoutRect, excludeIds: string[]): void {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const scale = canvas.width / area.width;
+  ctx.save();
+  ctx.translate(-area.left * scale, -area.top * scale);
+  drawAnnotationsOnCanvas(ctx, getAnnotationDrawings(excludeIds), scale);
+  if (shapes.length > 0) {
+    drawShapesOnCanvas(ctx, resolveShapes(), scale);
+  }
+  ctx.restore();
+}
 
-  // Tailwind CSS対策: html2canvasでテキストがずれる問題を修正
-  // https://stackoverflow.com/questions/74980740/html2canvas-shifting-text-downwards
+// Tailwind CSS対策: html2canvasでテキストがずれる問題を修正するスタイル
+// https://stackoverflow.com/questions/74980740/html2canvas-shifting-text-downwards
+// レイアウトが変わるため、注釈の位置を読み終えるまで（出力の完了まで）残す
+async function applyHtml2canvasFix(): Promise<void> {
+  if (document.getElementById('wdh-tailwind-fix')) return;
   const tailwindFixStyle = document.createElement('style');
   tailwindFixStyle.id = 'wdh-tailwind-fix';
   tailwindFixStyle.textContent = `
@@ -962,310 +2627,548 @@ async function exportImage(): Promise<void> {
   `;
   document.head.appendChild(tailwindFixStyle);
 
-  try {
-    // スクロール位置を保存
-    const scrollX = window.scrollX;
-    const scrollY = window.scrollY;
+  // スタイル適用とレイアウト再計算のため少し待つ
+  await new Promise(resolve => setTimeout(resolve, 100));
+  updateOverlayPositions();
+}
+
+function removeHtml2canvasFix(): void {
+  document.getElementById('wdh-tailwind-fix')?.remove();
+}
+
+// 表示範囲のキャプチャをBackgroundに依頼
+function requestTabCapture(): Promise<string> {
+  return sendToBackground<string>('CAPTURE_VISIBLE_TAB');
+}
+
+// ページ全体の範囲（ページ座標）
+function getFullPageRect(): LayoutRect {
+  const body = document.body;
+  const html = document.documentElement;
+  return {
+    left: 0,
+    top: 0,
+    width: Math.max(body.scrollWidth, html.scrollWidth),
+    height: Math.max(body.scrollHeight, html.scrollHeight),
+  };
+}
+
+// 範囲をページ内に収める
+function clampToPage(rect: LayoutRect): LayoutRect {
+  const page = getFullPageRect();
+  const left = Math.max(0, rect.left);
+  const top = Math.max(0, rect.top);
+  return {
+    left,
+    top,
+    width: Math.max(1, Math.min(page.width, rect.left + rect.width) - left),
+    height: Math.max(1, Math.min(page.height, rect.top + rect.height) - top),
+  };
+}
+
+// 注釈を切り出すときに枠の外側に含める余白（番号バッジが収まるように）
+const CAPTURE_BADGE_MARGIN = 20;
+
+// 画像に切り出す範囲と、そこに描く注釈
+interface CaptureTarget {
+  area: LayoutRect; // ページ座標
+  excludeIds: string[]; // 枠とバッジを描かない注釈
+  legendParentId: string | null; // 凡例に載せる注釈の親（nullは全体）
+  name: string; // ファイル名に含める範囲の名前（ページ全体は空）
+}
+
+// 注釈とその子孫の枠をすべて含む範囲
+function getAnnotationCaptureArea(el: SelectedElement): LayoutRect {
+  const frames = [el, ...getDescendants(el.id)]
+    .filter(isAttached)
+    .map(e => getBadgeLayoutItem(e).frame);
+  const left = Math.min(...frames.map(f => f.left)) - CAPTURE_BADGE_MARGIN;
+  const top = Math.min(...frames.map(f => f.top)) - CAPTURE_BADGE_MARGIN;
+  const right = Math.max(...frames.map(f => f.left + f.width)) + CAPTURE_BADGE_MARGIN;
+  const bottom = Math.max(...frames.map(f => f.top + f.height)) + CAPTURE_BADGE_MARGIN;
+  return clampToPage({ left, top, width: right - left, height: bottom - top });
+}
+
+// 出力範囲を切り出す範囲に解決（viewportはキャプチャのためにスクロールする前の表示範囲）
+function resolveCaptureTarget(scope: CaptureScope, viewport: LayoutRect): CaptureTarget {
+  switch (scope.kind) {
+    case 'viewport':
+      return { area: clampToPage(viewport), excludeIds: [], legendParentId: null, name: 'viewport' };
+    case 'region':
+      return { area: clampToPage(scope.rect), excludeIds: [], legendParentId: null, name: 'region' };
+    case 'annotation': {
+      const el = selectedElements.find(e => e.id === scope.id);
+      if (!el || !isAttached(el)) {
+        throw new Error('出力する注釈が見つかりません');
+      }
+      return {
+        area: getAnnotationCaptureArea(el),
+        // 注釈とその祖先の枠とバッジは、切り出し範囲に枠線がかからないように描かない
+        excludeIds: getAncestorPath(el.id).map(e => e.id),
+        legendParentId: el.id,
+        name: el.label,
+      };
+    }
+    default:
+      return { area: getFullPageRect(), excludeIds: [], legendParentId: null, name: '' };
+  }
+}
 
-    // スクロールを一番上に移動
+// ページの範囲をキャプチャ（選択した描画方法で。スクリーンショットに失敗した場合はhtml2canvasで描画）
+// html2canvas用のスタイルでレイアウトが変わるため、範囲はキャプチャの直前にresolveで決める
+async function capturePageArea<T extends { area: LayoutRect }>(resolve: () => T): Promise<{ canvas: HTMLCanvasElement; target: T }> {
+  if (captureRenderer === 'native') {
+    const target = resolve();
+    try {
+      return { canvas: await captureByScrolling(target.area, requestTabCapture), target };
+    } catch (e) {
+      console.warn('WDH: Native capture failed, falling back to html2canvas', e);
+    }
+  }
+
+  await applyHtml2canvasFix();
+  const target = resolve();
+  const page = getFullPageRect();
+  const canvas = await html2canvas(document.body, {
+    x: target.area.left,
+    y: target.area.top,
+    width: target.area.width,
+    height: target.area.height,
+    windowWidth: page.width,
+    windowHeight: page.height,
+    scrollX: 0,
+    scrollY: 0,
+    useCORS: true,
+    allowTaint: true,
+    logging: false,
+    // パネルや枠などのUIは閉じたシャドウルート内にあり写らないため、ホストごと除外する
+    ignoreElements: isUiHost,
+  });
+  return { canvas, target };
+}
+
+// キャプチャ（sourceAreaの範囲）から出力範囲を切り出し、注釈・図形・凡例（withLegendがfalseなら省く）を描画
+function renderCaptureTarget(source: HTMLCanvasElement, sourceArea: LayoutRect, target: CaptureTarget, withLegend: boolean = true): HTMLCanvasElement {
+  const scale = source.width / sourceArea.width;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(target.area.width * scale);
+  canvas.height = Math.round(target.area.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is too large');
+  }
+  ctx.drawImage(
+    source,
+    (target.area.left - sourceArea.left) * scale, (target.area.top - sourceArea.top) * scale, canvas.width, canvas.height,
+    0, 0, canvas.width, canvas.height
+  );
+  drawOverlaysOnCanvas(canvas, target.area, target.excludeIds);
+  if (!withLegend) {
+    return canvas;
+  }
+  return renderLegend(canvas, getLegendItems(target.legendParentId), legendPosition, scale);
+}
+
+// キャプチャ中の画面（ローディング表示、パネルの非表示、スクロール位置の退避と復元）を用意してtaskを実行
+async function withCaptureUi<T>(task: () => Promise<T>): Promise<T> {
+  const loadingOverlay = document.createElement('div');
+  loadingOverlay.className = 'wdh-overlay';
+  loadingOverlay.innerHTML = '<div class="wdh-overlay-text">画像を生成中...</div>';
+  getUiRoot().appendChild(loadingOverlay);
+
+  // パネルを一時的に非表示
+  if (panel) {
+    panel.style.display = 'none';
+  }
+
+  const scrollX = window.scrollX;
+  const scrollY = window.scrollY;
+  try {
+    // スクロールを一番上に移動し、オーバーレイ位置を更新
     window.scrollTo(0, 0);
+    updateOverlayPositions();
+    // スクロール後のレイアウト再計算のため少し待つ
+    await new Promise(resolve => setTimeout(resolve, 100));
+    return await task();
+  } finally {
+    // Tailwind CSS対策のスタイルを削除
+    removeHtml2canvasFix();
 
-    // オーバーレイ位置を更新
+    window.scrollTo(scrollX, scrollY);
     updateOverlayPositions();
+    if (panel) {
+      panel.style.display = '';
+    }
+    loadingOverlay.remove();
+  }
+}
 
-    // スタイル適用とレイアウト再計算のため少し待つ
-    await new Promise(resolve => setTimeout(resolve, 100));
+// 現在の表示範囲（ページ座標、スクロールバーを除く）
+function getViewportArea(): LayoutRect {
+  const html = document.documentElement;
+  return { left: window.scrollX, top: window.scrollY, width: html.clientWidth, height: html.clientHeight };
+}
 
-    let canvas: HTMLCanvasElement;
-    let filename: string;
+// 指定した範囲の画像（注釈・図形・凡例を含むPNG）を生成
+async function captureImage(scope: CaptureScope): Promise<{ blob: Blob; name: string }> {
+  const viewport = getViewportArea();
+  return withCaptureUi(async () => {
+    const { canvas, target } = await capturePageArea(() => resolveCaptureTarget(scope, viewport));
+    const blob = await canvasToBlob(renderCaptureTarget(canvas, target.area, target));
+    return { blob, name: target.name };
+  });
+}
 
-    const body = document.body;
-    const html = document.documentElement;
-    const fullWidth = Math.max(body.scrollWidth, html.scrollWidth);
-    const fullHeight = Math.max(body.scrollHeight, html.scrollHeight);
+// 画像を生成して出力（download: ダウンロード、clipboard: クリップボードにコピー、blob: 生成したBlobを返すのみ）
+async function exportCapture(scope: CaptureScope, output: CaptureOutput): Promise<Blob | null> {
+  if (!panel) return null;
 
-    if (focusedElementId) {
-      // フォーカスモード時: フォーカス要素のみをキャプチャ
-      const focusedElement = document.querySelector(`[data-wdh-id="${focusedElementId}"]`) as HTMLElement;
-      const focusedData = selectedElements.find(e => e.id === focusedElementId);
+  let image: { blob: Blob; name: string };
+  try {
+    image = await captureImage(scope);
+  } catch (error) {
+    console.error('画像の生成に失敗しました:', error);
+    alert('画像の生成に失敗しました。');
+    return null;
+  }
 
-      if (!focusedElement || !focusedData) {
-        throw new Error('フォーカス要素が見つかりません');
-      }
+  if (output === 'download') {
+    const name = image.name ? `${toFileNamePart(image.name)}-` : '';
+    downloadBlob(image.blob, `design-spec-${name}${getTimestamp()}.png`);
+  } else if (output === 'clipboard') {
+    try {
+      await navigator.clipboard.write([
+        new ClipboardItem({ 'image/png': image.blob })
+      ]);
+      showToast('クリップボードにコピーしました');
+    } catch (err) {
+      console.error('クリップボードへのコピーに失敗しました:', err);
+      alert('クリップボードへのコピーに失敗しました。');
+    }
+  }
+  return image.blob;
+}
 
-      // フォーカス要素（親）の枠とバッジを一時的に非表示
-      const parentFrame = overlayContainer?.querySelector(`[data-wdh-frame="${focusedElementId}"]`) as HTMLElement;
-      const parentBadge = overlayContainer?.querySelector(`[data-wdh-badge="${focusedElementId}"]`) as HTMLElement;
-      if (parentFrame) parentFrame.style.display = 'none';
-      if (parentBadge) parentBadge.style.display = 'none';
-
-      // フォーカス要素の位置とサイズを取得
-      const padding = focusedData.padding ?? 0;
-      const rect = focusedElement.getBoundingClientRect();
-      const borderWidth = 3;
-      const badgeMargin = 20;
-      const captureX = rect.left - padding - borderWidth - badgeMargin;
-      const captureY = rect.top - padding - borderWidth - badgeMargin;
-      const captureWidth = rect.width + padding * 2 + borderWidth * 2 + badgeMargin * 2;
-      const captureHeight = rect.height + padding * 2 + borderWidth * 2 + badgeMargin * 2;
-
-      // html2canvasでページ全体をキャプチャしてからクロップ
-      const fullCanvas = await html2canvas(document.body, {
-        width: fullWidth,
-        height: fullHeight,
-        windowWidth: fullWidth,
-        windowHeight: fullHeight,
-        x: 0,
-        y: 0,
-        scrollX: 0,
-        scrollY: 0,
-        useCORS: true,
-        allowTaint: true,
-        logging: false,
-        ignoreElements: (element) => {
-          return element.classList.contains('wdh-overlay') ||
-                 element.classList.contains('wdh-panel');
-        },
-      });
+// ZIP内のファイル名をラベルから決める（同じラベルが続く場合は番号を付けて区別）
+function getUniqueFileName(base: string, usedNames: Set<string>): string {
+  let name = `${base}.png`;
+  for (let n = 2; usedNames.has(name); n++) {
+    name = `${base}_${n}.png`;
+  }
+  usedNames.add(name);
+  return name;
+}
+
+// 最上位の注釈（フォーカス中はその子）ごとに子の注釈を含めて切り出した画像と、全体の画像をZIPで出力
+// ページのキャプチャは1回だけ行い、そこから切り出す
+async function exportBatchImages(): Promise<void> {
+  if (!panel) return;
+
+  const parentId = focusedElementId;
+  const sections = selectedElements.filter(el => el.parentId === parentId && isAttached(el));
+  if (sections.length === 0) {
+    alert('出力する注釈がありません。');
+    return;
+  }
+  const overview: CaptureScope = parentId ? { kind: 'annotation', id: parentId } : { kind: 'page' };
+
+  let zip: { blob: Blob; name: string };
+  try {
+    zip = await withCaptureUi(async () => {
+      const { canvas, target } = await capturePageArea(() => ({ area: getFullPageRect() }));
+      const entries: ZipEntry[] = [];
+      const usedNames = new Set<string>();
+      const addEntry = async (captureTarget: CaptureTarget, path: string) => {
+        const blob = await canvasToBlob(renderCaptureTarget(canvas, target.area, captureTarget));
+        entries.push({ name: path, data: new Uint8Array(await blob.arrayBuffer()) });
+      };
+
+      // 全体の画像（ページ全体はpage.png、フォーカス中はその注釈のラベル）
+      const overviewTarget = resolveCaptureTarget(overview, target.area);
+      await addEntry(overviewTarget, getUniqueFileName(overviewTarget.name ? toFileNamePart(overviewTarget.name) : 'page', usedNames));
 
-      // 親の枠とバッジを再表示
-      if (parentFrame) parentFrame.style.display = '';
-      if (parentBadge) parentBadge.style.display = '';
-
-      // 必要な領域だけ切り出し
-      canvas = document.createElement('canvas');
-      canvas.width = captureWidth;
-      canvas.height = captureHeight;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(
-          fullCanvas,
-          captureX, captureY, captureWidth, captureHeight,
-          0, 0, captureWidth, captureHeight
-        );
+      // 注釈ごとの画像（sections/ラベル.png）
+      for (const el of sections) {
+        const sectionTarget = resolveCaptureTarget({ kind: 'annotation', id: el.id }, target.area);
+        await addEntry(sectionTarget, `sections/${getUniqueFileName(toFileNamePart(el.label), usedNames)}`);
       }
+      return { blob: createZip(entries), name: overviewTarget.name };
+    });
+  } catch (error) {
+    console.error('画像の生成に失敗しました:', error);
+    alert('画像の生成に失敗しました。');
+    return;
+  }
+
+  const name = zip.name ? `${toFileNamePart(zip.name)}-` : '';
+  downloadBlob(zip.blob, `design-spec-${name}${getTimestamp()}.zip`);
+  showToast(`${sections.length + 1}枚の画像をZIPで出力しました`);
+}
 
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-      filename = `design-spec-${focusedData.label}-${timestamp}.png`;
-    } else {
-      // 通常モード: ページ全体をキャプチャ
-      canvas = await html2canvas(document.body, {
-        width: fullWidth,
-        height: fullHeight,
-        windowWidth: fullWidth,
-        windowHeight: fullHeight,
-        x: 0,
-        y: 0,
-        scrollX: 0,
-        scrollY: 0,
-        useCORS: true,
-        allowTaint: true,
-        logging: false,
-        ignoreElements: (element) => {
-          return element.classList.contains('wdh-overlay') ||
-                 element.classList.contains('wdh-panel');
-        },
-      });
+// PDFのページ画像のJPEG画質
+const PDF_JPEG_QUALITY = 0.9;
 
-      const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
-      filename = `design-spec-${timestamp}.png`;
-    }
+// 画面設計書をPDFで出力（表紙、全体の画像、最上位の注釈（フォーカス中はその子）ごとの切り出しと子の一覧）
+// ページのキャプチャは1回だけ行い、すべてブラウザ内で生成する
+async function exportPdf(): Promise<void> {
+  if (!panel) return;
 
-    // スクロール位置を復元
-    window.scrollTo(scrollX, scrollY);
-    updateOverlayPositions();
+  const parentId = focusedElementId;
+  const sections = selectedElements.filter(el => el.parentId === parentId && isAttached(el));
+  if (sections.length === 0) {
+    alert('出力する注釈がありません。');
+    return;
+  }
+  const overview: CaptureScope = parentId ? { kind: 'annotation', id: parentId } : { kind: 'page' };
+  const created = new Date();
+  const title = document.title || '画面設計書';
 
-    // ダウンロード
-    const link = document.createElement('a');
-    link.download = filename;
-    link.href = canvas.toDataURL('image/png');
-    link.click();
+  let pdf: { blob: Blob; name: string };
+  try {
+    pdf = await withCaptureUi(async () => {
+      const { canvas, target } = await capturePageArea(() => ({ area: getFullPageRect() }));
+      const overviewTarget = resolveCaptureTarget(overview, target.area);
+      const pages = renderSpecDocumentPages({
+        title,
+        url: location.href,
+        created,
+        annotationCount: selectedElements.length,
+        overviewTitle: overviewTarget.name ? `${overviewTarget.name} 全体` : 'ページ全体',
+        renderOverview: () => renderCaptureTarget(canvas, target.area, overviewTarget),
+        sections: sections.map(el => {
+          const sectionTarget = resolveCaptureTarget({ kind: 'annotation', id: el.id }, target.area);
+          const tag = el.kind === 'region' ? '範囲' : `<${el.tagName}>`;
+          return {
+            title: `${el.label} ${el.description.trim().split('\n')[0] || tag}`,
+            // 子の説明は表に載せるため凡例は付けない
+            renderImage: () => renderCaptureTarget(canvas, target.area, sectionTarget, false),
+            rows: getLegendItems(el.id),
+          };
+        }),
+      });
 
+      // ページは1枚ずつ描かれるため、次のページを描く前にJPEGにする
+      const pdfPages: PdfPage[] = [];
+      for (const page of pages) {
+        const jpeg = await canvasToBlob(page, 'image/jpeg', PDF_JPEG_QUALITY);
+        pdfPages.push({
+          jpeg: new Uint8Array(await jpeg.arrayBuffer()),
+          pixelWidth: page.width,
+          pixelHeight: page.height,
+          width: PAGE_WIDTH_PT,
+          height: PAGE_HEIGHT_PT,
+        });
+      }
+      return { blob: createPdf(pdfPages, { title, created }), name: overviewTarget.name };
+    });
   } catch (error) {
-    console.error('画像の生成に失敗しました:', error);
-    alert('画像の生成に失敗しました。');
-  } finally {
-    // Tailwind CSS対策のスタイルを削除
-    tailwindFixStyle.remove();
-
-    // パネルを再表示
-    if (panel) {
-      panel.style.display = '';
-    }
-    loadingOverlay.remove();
+    console.error('PDFの生成に失敗しました:', error);
+    alert('PDFの生成に失敗しました。');
+    return;
   }
-}
 
+  const name = pdf.name ? `${toFileNamePart(pdf.name)}-` : '';
+  downloadBlob(pdf.blob, `design-spec-${name}${getTimestamp()}.pdf`);
+}
 
-async function copyImageToClipboard(): Promise<void> {
+// 指定した範囲をSVGで出力（ページの画像の上に、注釈を1つずつ編集できる図形のグループとして重ねる）
+// 凡例は画像の外に描く付加情報のため含めない（各グループにラベルとIDを属性として持たせる）
+async function exportSvg(scope: CaptureScope): Promise<void> {
   if (!panel) return;
 
-  // ローディングオーバーレイを表示
-  const loadingOverlay = document.createElement('div');
-  loadingOverlay.className = 'wdh-overlay';
-  loadingOverlay.innerHTML = '<div class="wdh-overlay-text">画像を生成中...</div>';
-  document.body.appendChild(loadingOverlay);
+  const viewport = getViewportArea();
+  let svg: { text: string; name: string };
+  try {
+    svg = await withCaptureUi(async () => {
+      const { canvas, target } = await capturePageArea(() => resolveCaptureTarget(scope, viewport));
+      const text = createAnnotatedSvg({
+        title: document.title || '画面設計書',
+        area: target.area,
+        image: canvas.toDataURL('image/png'),
+        annotations: getAnnotationDrawings(target.excludeIds),
+        shapes: shapes.length > 0 ? resolveShapes() : [],
+      });
+      return { text, name: target.name };
+    });
+  } catch (error) {
+    console.error('SVGの生成に失敗しました:', error);
+    alert('SVGの生成に失敗しました。');
+    return;
+  }
 
-  // パネルを一時的に非表示
-  panel.style.display = 'none';
+  const name = svg.name ? `${toFileNamePart(svg.name)}-` : '';
+  downloadBlob(new Blob([svg.text], { type: 'image/svg+xml' }), `design-spec-${name}${getTimestamp()}.svg`);
+}
 
-  // Tailwind CSS対策: html2canvasでテキストがずれる問題を修正
-  const tailwindFixStyle = document.createElement('style');
-  tailwindFixStyle.id = 'wdh-tailwind-fix';
-  tailwindFixStyle.textContent = `
-    img {
-      display: inline-block !important;
-    }
-    * {
-      line-height: normal !important;
-    }
-  `;
-  document.head.appendChild(tailwindFixStyle);
+// パネルで選んだ範囲でcaptureを実行（ドラッグで指定する場合は範囲の指定を待つ）
+function requestCapture(capture: (scope: CaptureScope) => void): void {
+  switch (captureScopeKind) {
+    case 'region':
+      pendingCapture = capture;
+      drawTool = 'capture';
+      cancelDrawing();
+      setHoveredElement(null);
+      updateCursorStyle();
+      updatePanel();
+      showToast('出力する範囲をドラッグしてください（Escでキャンセル）');
+      return;
+    case 'annotation':
+      if (!focusedElementId) {
+        alert('「▶」で出力する注釈にフォーカスしてください。');
+        return;
+      }
+      capture({ kind: 'annotation', id: focusedElementId });
+      return;
+    default:
+      capture({ kind: captureScopeKind });
+  }
+}
 
-  try {
-    // スクロール位置を保存
-    const scrollX = window.scrollX;
-    const scrollY = window.scrollY;
+// 画像の範囲を変更
+function setCaptureScopeKind(kind: CaptureScopeKind): void {
+  captureScopeKind = kind;
+  if (kind === 'region') return;
+  // ドラッグでの範囲指定を待っている場合は取り消す
+  if (drawTool === 'capture') {
+    setDrawTool('capture');
+  }
+}
 
-    // スクロールを一番上に移動
-    window.scrollTo(0, 0);
+// 仕様表を出力（Markdown / CSV / HTML）
+function exportTable(): void {
+  if (selectedElements.length === 0) {
+    alert('要素が選択されていません。');
+    return;
+  }
 
-    // オーバーレイ位置を更新
-    updateOverlayPositions();
+  const rows = buildSpecRows(selectedElements, palette);
+  const format = TABLE_FORMATS.find(f => f.value === tableFormat) ?? TABLE_FORMATS[0];
 
-    // スタイル適用とレイアウト再計算のため少し待つ
-    await new Promise(resolve => setTimeout(resolve, 100));
+  let content: string;
+  if (format.value === 'csv') {
+    content = toCsv(rows);
+  } else if (format.value === 'html') {
+    content = toHtmlDocument(rows, document.title || '画面設計書', location.href);
+  } else {
+    content = toMarkdown(rows);
+  }
+
+  const blob = new Blob([content], { type: `${format.mimeType};charset=utf-8` });
+  downloadBlob(blob, `design-spec-${getTimestamp()}.${format.extension}`);
+}
 
-    let canvas: HTMLCanvasElement;
+// 仕様表をクリップボードにコピー（リッチテキストとTSVを1つのClipboardItemに格納）
+async function copyTableToClipboard(): Promise<void> {
+  if (selectedElements.length === 0) {
+    alert('要素が選択されていません。');
+    return;
+  }
 
-    const body = document.body;
-    const html = document.documentElement;
-    const fullWidth = Math.max(body.scrollWidth, html.scrollWidth);
-    const fullHeight = Math.max(body.scrollHeight, html.scrollHeight);
+  const rows = buildSpecRows(selectedElements, palette);
 
-    if (focusedElementId) {
-      // フォーカスモード時: フォーカス要素のみをキャプチャ
-      const focusedElement = document.querySelector(`[data-wdh-id="${focusedElementId}"]`) as HTMLElement;
-      const focusedData = selectedElements.find(e => e.id === focusedElementId);
+  try {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        'text/html': new Blob([toClipboardHtml(rows)], { type: 'text/html' }),
+        'text/plain': new Blob([toTsv(rows)], { type: 'text/plain' }),
+      })
+    ]);
+    showToast('表をクリップボードにコピーしました');
+  } catch (err) {
+    console.error('クリップボードへのコピーに失敗しました:', err);
+    alert('クリップボードへのコピーに失敗しました。');
+  }
+}
 
-      if (!focusedElement || !focusedData) {
-        throw new Error('フォーカス要素が見つかりません');
-      }
+// 注釈セットをJSONファイルとして出力
+function exportJson(): void {
+  const file: AnnotationFile = {
+    ...getCurrentState(),
+    url: location.href,
+    viewport: {
+      width: window.innerWidth,
+      height: window.innerHeight,
+    },
+    exportedAt: new Date().toISOString(),
+  };
 
-      // フォーカス要素（親）の枠とバッジを一時的に非表示
-      const parentFrame = overlayContainer?.querySelector(`[data-wdh-frame="${focusedElementId}"]`) as HTMLElement;
-      const parentBadge = overlayContainer?.querySelector(`[data-wdh-badge="${focusedElementId}"]`) as HTMLElement;
-      if (parentFrame) parentFrame.style.display = 'none';
-      if (parentBadge) parentBadge.style.display = 'none';
-
-      // フォーカス要素の位置とサイズを取得
-      const padding = focusedData.padding ?? 0;
-      const rect = focusedElement.getBoundingClientRect();
-      const borderWidth = 3;
-      const badgeMargin = 20;
-      const captureX = rect.left - padding - borderWidth - badgeMargin;
-      const captureY = rect.top - padding - borderWidth - badgeMargin;
-      const captureWidth = rect.width + padding * 2 + borderWidth * 2 + badgeMargin * 2;
-      const captureHeight = rect.height + padding * 2 + borderWidth * 2 + badgeMargin * 2;
-
-      // html2canvasでページ全体をキャプチャしてからクロップ
-      const fullCanvas = await html2canvas(document.body, {
-        width: fullWidth,
-        height: fullHeight,
-        windowWidth: fullWidth,
-        windowHeight: fullHeight,
-        x: 0,
-        y: 0,
-        scrollX: 0,
-        scrollY: 0,
-        useCORS: true,
-        allowTaint: true,
-        logging: false,
-        ignoreElements: (element) => {
-          return element.classList.contains('wdh-overlay') ||
-                 element.classList.contains('wdh-panel');
-        },
-      });
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `design-spec-${getTimestamp()}.json`);
+}
 
-      // 親の枠とバッジを再表示
-      if (parentFrame) parentFrame.style.display = '';
-      if (parentBadge) parentBadge.style.display = '';
-
-      // 必要な領域だけ切り出し
-      canvas = document.createElement('canvas');
-      canvas.width = captureWidth;
-      canvas.height = captureHeight;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(
-          fullCanvas,
-          captureX, captureY, captureWidth, captureHeight,
-          0, 0, captureWidth, captureHeight
-        );
+// JSONファイルを選択して注釈セットを読み込み
+function importJson(): void {
+  const input = document.createElement('input');
+  input.type = 'file';
+  input.accept = 'application/json,.json';
+  input.addEventListener('change', async () => {
+    const file = input.files?.[0];
+    if (!file) return;
+
+    let state: SavedState;
+    let source: Partial<AnnotationFile>;
+    try {
+      source = JSON.parse(await file.text());
+      state = migrateState(source);
+      // 空のファイルで現在の注釈セットを消してしまわないよう、注釈も図形もないデータは読み込まない
+      if (state.elements.length === 0 && state.shapes.length === 0) {
+        throw new Error('注釈が含まれていません');
       }
-    } else {
-      // 通常モード: ページ全体をキャプチャ
-      canvas = await html2canvas(document.body, {
-        width: fullWidth,
-        height: fullHeight,
-        windowWidth: fullWidth,
-        windowHeight: fullHeight,
-        x: 0,
-        y: 0,
-        scrollX: 0,
-        scrollY: 0,
-        useCORS: true,
-        allowTaint: true,
-        logging: false,
-        ignoreElements: (element) => {
-          return element.classList.contains('wdh-overlay') ||
-                 element.classList.contains('wdh-panel');
-        },
-      });
+    } catch (error) {
+      console.error('JSONファイルの読み込みに失敗しました:', error);
+      alert(`JSONファイルの読み込みに失敗しました。\n${error instanceof Error ? error.message : ''}`);
+      return;
     }
 
-    // スクロール位置を復元
-    window.scrollTo(scrollX, scrollY);
-    updateOverlayPositions();
+    if (selectedElements.length > 0 && !confirm('現在の選択を読み込んだ内容で置き換えますか？')) {
+      return;
+    }
 
-    // クリップボードにコピー
-    canvas.toBlob(async (blob) => {
-      if (!blob) {
-        alert('画像の生成に失敗しました。');
-        return;
-      }
-      try {
-        await navigator.clipboard.write([
-          new ClipboardItem({ 'image/png': blob })
-        ]);
-        // 成功メッセージを表示
-        showToast('クリップボードにコピーしました');
-      } catch (err) {
-        console.error('クリップボードへのコピーに失敗しました:', err);
-        alert('クリップボードへのコピーに失敗しました。');
-      }
-    }, 'image/png');
+    // 現在の選択を破棄してから復元（読み込み前の状態に戻せるよう履歴に記録）
+    recordHistory();
+    detachAllElements();
+    selectedElements = [];
+    const unresolved = applySavedState(state);
+    updatePanel();
+    saveState();
 
-  } catch (error) {
-    console.error('画像の生成に失敗しました:', error);
-    alert('画像の生成に失敗しました。');
-  } finally {
-    // Tailwind CSS対策のスタイルを削除
-    tailwindFixStyle.remove();
+    const messages: string[] = [];
+    const skipped = (source.elements?.length ?? 0) - state.elements.length;
+    if (skipped > 0) {
+      messages.push(`${skipped}件の要素はデータが壊れているため読み込みませんでした`);
+    }
+    if (typeof source.url === 'string' && source.url && source.url !== location.href) {
+      messages.push(`出力元のURL: ${source.url}`);
+    }
+    if (source.viewport && (source.viewport.width !== window.innerWidth || source.viewport.height !== window.innerHeight)) {
+      messages.push(`出力時の画面サイズ: ${source.viewport.width}×${source.viewport.height}（現在: ${window.innerWidth}×${window.innerHeight}）`);
+    }
+    if (unresolved.length > 0) {
+      messages.push(
+        `${unresolved.length}件の要素が見つからないか一致度が低いため、パネルで確認してください:`,
+        ...unresolved.map(el => {
+          const status = el.match?.status === 'missing'
+            ? '見つかりません'
+            : `一致度 ${Math.round((el.match?.confidence ?? 0) * 100)}%`;
+          return `・${el.label}（${status}）: ${el.selector}`;
+        })
+      );
+    }
 
-    // パネルを再表示
-    if (panel) {
-      panel.style.display = '';
+    if (messages.length > 0) {
+      alert(`${selectedElements.length}件の要素を読み込みました。\n\n${messages.join('\n')}`);
+    } else {
+      showToast(`${selectedElements.length}件の要素を読み込みました`);
     }
-    loadingOverlay.remove();
-  }
+  });
+  input.click();
 }
 
 function showToast(message: string): void {
   const toast = document.createElement('div');
   toast.className = 'wdh-toast';
   toast.textContent = message;
-  document.body.appendChild(toast);
+  getUiRoot().appendChild(toast);
 
   // アニメーション後に削除
   setTimeout(() => {
@@ -1274,73 +3177,103 @@ function showToast(message: string): void {
   }, 2000);
 }
 
-// スクロール・リサイズ時にオーバーレイ位置を更新
-function handleScrollOrResize(): void {
-  if (isEditing && selectedElements.length > 0) {
-    updateOverlayPositions();
+// スクロール・リサイズ時にオーバーレイ位置を更新（表示幅が変わるリサイズはすべての注釈を読み直す）
+function handleScrollOrResize(e: Event): void {
+  scheduleOverlayUpdate(e.type === 'resize');
+}
+
+// ページのカーソルを編集モード・描画モードに合わせる（描画モードではページのテキスト選択も止める）
+function updateCursorStyle(): void {
+  if (!isEditing) {
+    cursorStyle?.remove();
+    cursorStyle = null;
+    return;
+  }
+  if (!cursorStyle) {
+    cursorStyle = document.createElement('style');
+    cursorStyle.id = 'wdh-cursor-style';
+    document.head.appendChild(cursorStyle);
   }
+  cursorStyle.textContent = drawTool
+    ? '* { cursor: crosshair !important; user-select: none !important; }'
+    : '* { cursor: crosshair !important; }';
 }
 
 // 編集モードを開始
-function startEditing(): void {
+async function startEditing(): Promise<void> {
   if (isEditing) return;
 
   isEditing = true;
-  document.body.classList.add('wdh-editing-mode');
+  updateCursorStyle();
+
+  // パネルやオーバーレイは閉じたシャドウルート内に描画（ページのCSSの影響を受けない）
+  const uiRoot = getUiRoot();
 
   // オーバーレイコンテナを作成
   overlayContainer = createOverlayContainer();
-  document.body.appendChild(overlayContainer);
-
-  // 保存された状態を復元
-  const savedState = loadState();
-  if (savedState && savedState.elements.length > 0) {
-    focusedElementId = savedState.focusedElementId;
-    restoreElements(savedState.elements);
-
-    // 次の番号を既存要素から計算（親要素のみ対象）
-    const parentElements = selectedElements.filter(e => e.parentId === null);
-    const maxNumber = parentElements.reduce((max, el) => {
-      const num = parseInt(el.label, 10);
-      return !isNaN(num) ? Math.max(max, num) : max;
-    }, 0);
-    nextNumber = maxNumber + 1;
-
-    // サブ番号を既存要素から計算（フォーカス中の場合）
-    if (focusedElementId) {
-      const subElements = selectedElements.filter(e => e.parentId === focusedElementId);
-      const maxSubNumber = subElements.reduce((max, el) => {
-        // "1-2" のような形式から最後の数字を取得
-        const match = el.label.match(/-(\d+)$/);
-        if (match) {
-          return Math.max(max, parseInt(match[1], 10));
-        }
-        return max;
-      }, 0);
-      focusedSubNumber = maxSubNumber + 1;
-
-      // フォーカス中の要素を強調表示
-      const focusedDomElement = document.querySelector(`[data-wdh-id="${focusedElementId}"]`) as HTMLElement;
-      if (focusedDomElement) {
-        focusedDomElement.classList.add('wdh-focused-element');
-      }
-    } else {
-      focusedSubNumber = 1;
-    }
-  }
+  uiRoot.appendChild(overlayContainer);
+
+  // 図形レイヤーを作成（枠やバッジより手前に表示）
+  shapeLayer = createShapeLayer();
+  overlayContainer.appendChild(shapeLayer);
+
+  // ホバー中の候補とフォーカス中の要素のハイライト枠
+  hoverBox = createHighlightBox('wdh-hover-box');
+  focusBox = createHighlightBox('wdh-focus-box');
+  overlayContainer.append(hoverBox, focusBox);
+  updateHighlightBoxes();
 
   // パネルを作成
   panel = createPanel();
-  document.body.appendChild(panel);
+  uiRoot.appendChild(panel);
   updatePanel();
 
+  // 注釈を付けた要素の移動・サイズ変更と、要素の削除・再表示を監視
+  elementWatcher = createElementWatcher({
+    onLayout: handleWatchedLayout,
+    onNodesAdded: reattachReappearedElements,
+    ignore: isUiHost,
+  });
+
   // イベントリスナーを追加
   document.addEventListener('mouseover', handleMouseOver);
   document.addEventListener('mouseout', handleMouseOut);
   document.addEventListener('click', handleClick, true);
+  document.addEventListener('mousedown', handleMouseDown, true);
+  document.addEventListener('mousemove', handleMouseMove, true);
+  document.addEventListener('mouseup', handleMouseUp, true);
   document.addEventListener('keydown', handleKeyDown);
+  // シャドウルート内の図形のドラッグ（ページ側のリスナーではホストが対象になり図形を特定できない）
+  uiRoot.addEventListener('mousedown', handleShapeMouseDown, true);
   window.addEventListener('scroll', handleScrollOrResize, true);
   window.addEventListener('resize', handleScrollOrResize);
+  window.addEventListener('pagehide', handlePageHide);
+  document.addEventListener('visibilitychange', handlePageHide);
+  // iframeの読み込み（loadはバブリングしないためキャプチャで受ける）
+  document.addEventListener('load', handleFrameLoad, true);
+  attachFrameListeners();
+
+  // SPAのページ遷移を監視（pushState・replaceStateの検知はページにフックを注入できた場合のみ）
+  stopRouteWatch = watchRouteChanges(handleNavigation);
+  sendToBackground<boolean>('WATCH_HISTORY').catch(e => {
+    console.warn('WDH: Failed to watch history, falling back to polling', e);
+  });
+
+  // 保存された状態を復元（chrome.storageからの読み込みは非同期）
+  stateUrl = location.href;
+  await loadUrlRules();
+  await loadPalette();
+  await loadCaptureRenderer();
+  const savedState = await loadState();
+  // 読み込み中に編集モードが終了された場合は何もしない
+  if (!isEditing) return;
+  if (savedState) {
+    const unresolved = applySavedState(savedState);
+    if (unresolved.length > 0) {
+      showToast(`${unresolved.length}件の要素が見つからないか一致度が低いため、パネルで確認してください`);
+    }
+  }
+  updatePanel();
 }
 
 // 編集モードを終了
@@ -1348,17 +3281,17 @@ function stopEditing(): void {
   if (!isEditing) return;
 
   isEditing = false;
-  document.body.classList.remove('wdh-editing-mode');
+  reattachingId = null;
+  drawTool = null;
+  pendingCapture = null;
+  cancelDrawing();
+  shapeDrag = null;
+  pointerElement = null;
+  setHoveredElement(null);
+  updateCursorStyle();
 
-  // フォーカス中の要素の強調表示を解除
-  if (focusedElementId) {
-    const focusedDomElement = document.querySelector(`[data-wdh-id="${focusedElementId}"]`) as HTMLElement;
-    if (focusedDomElement) {
-      focusedDomElement.classList.remove('wdh-focused-element');
-    }
-    focusedElementId = null;
-    focusedSubNumber = 1;
-  }
+  focusedElementId = null;
+  focusedSubNumber = 1;
 
   // パネルを削除
   if (panel) {
@@ -1366,53 +3299,253 @@ function stopEditing(): void {
     panel = null;
   }
 
-  // 要素のdata属性をクリア（状態はlocalStorageに保存済み）
+  // 要素のdata属性をクリア（状態はchrome.storageに保存済み）
   selectedElements.forEach(el => {
-    const element = document.querySelector(`[data-wdh-id="${el.id}"]`) as HTMLElement;
+    const element = getAnnotatedElement(el.id);
     if (element) {
       delete element.dataset.wdhId;
     }
   });
+  elementWatcher?.disconnect();
+  elementWatcher = null;
+  flushHistorySave();
+  stopRouteWatch?.();
+  stopRouteWatch = null;
+  routeLoading = false;
   selectedElements = [];
-
-  // オーバーレイコンテナを削除
-  if (overlayContainer) {
-    overlayContainer.remove();
-    overlayContainer = null;
+  shapes = [];
+  knownElements.clear();
+  reattachFailures.clear();
+  editHistory = createEditHistory();
+  lastHistoryRecord = null;
+
+  // オーバーレイコンテナを削除（パネル・ツールチップなどと一緒にシャドウルートごと削除）
+  overlays.clear();
+  if (overlayFrameRequest !== null) {
+    cancelAnimationFrame(overlayFrameRequest);
+    overlayFrameRequest = null;
   }
+  overlayFullUpdate = false;
+  overlayDetachCheck = false;
+  overlayContainer = null;
+  shapeLayer = null;
+  hoverBox = null;
+  focusBox = null;
+  // シャドウルート内のリスナーはシャドウルートと一緒に破棄される
+  removeUiRoot();
 
   // イベントリスナーを削除
   document.removeEventListener('mouseover', handleMouseOver);
   document.removeEventListener('mouseout', handleMouseOut);
   document.removeEventListener('click', handleClick, true);
+  document.removeEventListener('mousedown', handleMouseDown, true);
+  document.removeEventListener('mousemove', handleMouseMove, true);
+  document.removeEventListener('mouseup', handleMouseUp, true);
   document.removeEventListener('keydown', handleKeyDown);
   window.removeEventListener('scroll', handleScrollOrResize, true);
   window.removeEventListener('resize', handleScrollOrResize);
+  window.removeEventListener('pagehide', handlePageHide);
+  document.removeEventListener('visibilitychange', handlePageHide);
+  document.removeEventListener('load', handleFrameLoad, true);
+  frameDocuments.forEach(removeFrameListeners);
+  frameDocuments = [];
+}
+
+// 表示中の注釈セットを片付ける（保存データはそのまま）
+function clearAnnotationSet(): void {
+  reattachingId = null;
+  cancelDrawing();
+  shapeDrag = null;
+  pointerElement = null;
+  setHoveredElement(null);
+  detachAllElements();
+  selectedElements = [];
+  shapes = [];
+  nextNumber = 1;
+  focusedElementId = null;
+  focusedSubNumber = 1;
+  knownElements.clear();
+  reattachFailures.clear();
+  editHistory = createEditHistory();
+  lastHistoryRecord = null;
+  updateHighlightBoxes();
+  renderShapes();
+  updatePanel();
+}
+
+// SPAのページ遷移時に、遷移前のURLの注釈セットを保存して片付け、遷移先のURLの注釈セットを復元
+async function handleNavigation(): Promise<void> {
+  if (!isEditing) return;
+  const navigation = ++navigationCount;
+
+  // 保存キーが変わらない遷移（無視するハッシュやクエリだけの変化など）では、注釈セットをそのまま使い続ける
+  // 片付けて読み込み直すと要素の再特定がやり直しになり、別の要素に付け直されることがある
+  if (!routeLoading && storageKey) {
+    const url = location.href;
+    let key: string | null = null;
+    try {
+      key = await sendToBackground<string>('GET_STATE_KEY', { url } as StateRequest);
+    } catch (e) {
+      console.warn('WDH: Failed to resolve storage key', e);
+    }
+    // 確認中に編集モードが終了された場合や、さらに遷移した場合は何もしない
+    if (!isEditing || navigation !== navigationCount) return;
+    if (key === storageKey) {
+      stateUrl = url;
+      return;
+    }
+  }
+
+  // 連続した遷移で読み込み中の場合は片付け済み
+  if (!routeLoading) {
+    // 保存する状態は呼び出し時点で取得されるため、保存の完了を待たずに片付けてよい
+    const saving = saveState();
+    flushHistorySave();
+    routeLoading = true;
+    clearAnnotationSet();
+    await saving;
+  }
+
+  stateUrl = location.href;
+  const savedState = await loadState();
+  // 読み込み中に編集モードが終了された場合や、さらに遷移した場合は何もしない
+  if (!isEditing || navigation !== navigationCount) return;
+  routeLoading = false;
+  if (savedState) {
+    // 遷移直後は描画が終わっていないことが多く、見つからない要素は表示され次第付け直す
+    applySavedState(savedState);
+  }
+  updatePanel();
+  if (selectedElements.length > 0) {
+    showToast(`このページの注釈（${selectedElements.length}件）を復元しました`);
+  }
+}
+
+// 同一オリジンのiframe内にもイベントリスナーを追加（iframe内のイベントは親のドキュメントに届かないため）
+function attachFrameListeners(): void {
+  // 再読み込みなどで破棄されたドキュメントは対象から外す
+  frameDocuments = frameDocuments.filter(doc => doc.defaultView !== null);
+  collectFrameDocuments(document)
+    .filter(doc => !frameDocuments.includes(doc))
+    .forEach(doc => {
+      doc.addEventListener('mouseover', handleMouseOver);
+      doc.addEventListener('mouseout', handleMouseOut);
+      doc.addEventListener('click', handleClick, true);
+      // iframeの上でも範囲や図形を描けるようにする（座標はトップのドキュメント基準に直して扱う）
+      doc.addEventListener('mousedown', handleMouseDown, true);
+      doc.addEventListener('mousemove', handleMouseMove, true);
+      doc.addEventListener('mouseup', handleMouseUp, true);
+      doc.addEventListener('keydown', handleKeyDown);
+      doc.addEventListener('scroll', handleScrollOrResize, true);
+      frameDocuments.push(doc);
+    });
+}
+
+function removeFrameListeners(doc: Document): void {
+  doc.removeEventListener('mouseover', handleMouseOver);
+  doc.removeEventListener('mouseout', handleMouseOut);
+  doc.removeEventListener('click', handleClick, true);
+  doc.removeEventListener('mousedown', handleMouseDown, true);
+  doc.removeEventListener('mousemove', handleMouseMove, true);
+  doc.removeEventListener('mouseup', handleMouseUp, true);
+  doc.removeEventListener('keydown', handleKeyDown);
+  doc.removeEventListener('scroll', handleScrollOrResize, true);
+}
+
+// iframeの読み込み完了時に中のドキュメントへリスナーを追加し、位置のずれた枠を更新
+function handleFrameLoad(e: Event): void {
+  const target = e.target as Element;
+  if (!isEditing || (target.tagName !== 'IFRAME' && target.tagName !== 'FRAME')) return;
+  attachFrameListeners();
+  scheduleOverlayUpdate(true);
 }
 
 // マウスオーバーハンドラ
 function handleMouseOver(e: MouseEvent): void {
-  const target = e.target as HTMLElement;
+  // シャドウルート内の要素はe.targetがホストになるため、composedPathから実際の要素を取る
+  const target = getEventTarget(e);
 
-  if (!isEditing || target.closest('.wdh-panel') || target.closest('.wdh-overlay-container')) {
+  // 拡張機能のUI（パネルなど）の上ではホストが対象になる
+  if (!isEditing || drawTool || !target || isUiHost(target)) {
     return;
   }
 
-  if (hoveredElement) {
-    hoveredElement.classList.remove('wdh-hover-highlight');
-  }
-
-  hoveredElement = target;
-  target.classList.add('wdh-hover-highlight');
+  pointerElement = target;
+  setHoveredElement(target);
 }
 
 // マウスアウトハンドラ
 function handleMouseOut(e: MouseEvent): void {
-  const target = e.target as HTMLElement;
-  target.classList.remove('wdh-hover-highlight');
+  const target = getEventTarget(e);
 
-  if (hoveredElement === target) {
-    hoveredElement = null;
+  // キーボードで親などに移っていても、マウスが離れたら候補を解除
+  if (pointerElement === target) {
+    pointerElement = null;
+    setHoveredElement(null);
+  }
+}
+
+// ホバー中の候補を切り替え（ハイライトとパンくずのツールチップを更新）
+function setHoveredElement(element: HTMLElement | null): void {
+  hoveredElement = element;
+  highlightedElement = element;
+  updateHighlightBoxes();
+  updatePickTooltip();
+}
+
+// ホバー中の候補のタグ・クラス・サイズを表示するツールチップを更新
+function updatePickTooltip(): void {
+  if (!hoveredElement) {
+    pickTooltip?.remove();
+    pickTooltip = null;
+    return;
+  }
+
+  if (!pickTooltip) {
+    pickTooltip = document.createElement('div');
+    pickTooltip.className = 'wdh-pick-tooltip';
+    getUiRoot().appendChild(pickTooltip);
+  }
+
+  const crumbs = getElementBreadcrumb(hoveredElement).map((crumb, i, all) => i === all.length - 1
+    ? `<span class="wdh-pick-tooltip-current">${escapeHtml(crumb)}</span>`
+    : escapeHtml(crumb)
+  );
+  const rect = getViewportRect(hoveredElement);
+  const note = reattachingId || isSelectable(hoveredElement)
+    ? '↑親 ↓子 ←→兄弟 Enterで選択'
+    : '選択できません（選択済み、またはフォーカス中の要素の外）';
+  pickTooltip.innerHTML = `
+    <div class="wdh-pick-tooltip-path">${crumbs.join(' › ')}</div>
+    <div class="wdh-pick-tooltip-size">${Math.round(rect.width)} × ${Math.round(rect.height)}</div>
+    <div class="wdh-pick-tooltip-hint">${note}</div>
+  `;
+  // 内容を変えたときだけ大きさを測り、スクロールなどでの位置合わせでは測り直さない
+  const tooltipRect = pickTooltip.getBoundingClientRect();
+  pickTooltipSize = { width: tooltipRect.width, height: tooltipRect.height };
+  positionPickTooltip(rect);
+}
+
+// ツールチップを候補（rectは画面座標）の下（入らなければ上）に、画面からはみ出さないように配置（書き込みのみ）
+function positionPickTooltip(rect: LayoutRect): void {
+  if (!pickTooltip) return;
+  const below = rect.top + rect.height + 8;
+  const top = below + pickTooltipSize.height <= window.innerHeight
+    ? below
+    : Math.max(0, rect.top - pickTooltipSize.height - 8);
+  const left = Math.min(Math.max(0, rect.left), Math.max(0, window.innerWidth - pickTooltipSize.width));
+  pickTooltip.style.setProperty('top', `${top}px`, 'important');
+  pickTooltip.style.setProperty('left', `${left}px`, 'important');
+}
+
+// ホバー中の候補をキーボードで親・子・兄弟に移す
+function walkHoveredElement(direction: WalkDirection): void {
+  if (!hoveredElement) return;
+  // フォーカスモード時はフォーカス中の要素の外に出ない（再指定中は制限なし）
+  const boundary = reattachingId ? null : getFocusBoundary();
+  const next = walkElement(hoveredElement, direction, boundary && containsComposed(boundary, hoveredElement) ? boundary : null);
+  if (next) {
+    setHoveredElement(next);
   }
 }
 
@@ -1420,25 +3553,233 @@ function handleMouseOut(e: MouseEvent): void {
 function handleClick(e: MouseEvent): void {
   if (!isEditing) return;
 
-  const target = e.target as HTMLElement;
+  const target = getEventTarget(e);
 
   // パネル内やオーバーレイコンテナのクリックは無視
-  if (target.closest('.wdh-panel') || target.closest('.wdh-overlay-container')) {
+  if (!target || isUiHost(target)) {
     return;
   }
 
   e.preventDefault();
   e.stopPropagation();
 
+  // 描画モードではクリックで要素を選択しない（マウスダウン〜アップで作成）
+  if (drawTool) {
+    return;
+  }
+
   // ホバーハイライトを削除
-  target.classList.remove('wdh-hover-highlight');
+  if (highlightedElement === target) {
+    highlightedElement = null;
+    updateHighlightBoxes();
+  }
+  updatePickTooltip();
+
+  // 再指定中はクリックした要素に紐付け直す
+  if (reattachingId) {
+    reattachElement(reattachingId, target);
+    return;
+  }
 
   selectElement(target);
 }
 
+// マウスダウンハンドラ（描画の開始）
+function handleMouseDown(e: MouseEvent): void {
+  if (!isEditing || e.button !== 0) return;
+
+  // パネルや図形の上（UIのホスト）は描画を始めない（図形のドラッグはhandleShapeMouseDownで扱う）
+  if (isUiHost(e.target)) {
+    return;
+  }
+
+  if (!drawTool) return;
+
+  // ページ側のドラッグやテキスト選択を防ぐ
+  e.preventDefault();
+  e.stopPropagation();
+
+  const point = getEventPagePoint(e);
+  if (drawTool !== 'region' && drawTool !== 'capture') {
+    startDrawingShape(drawTool, point.x, point.y);
+    return;
+  }
+
+  drawStart = point;
+  drawPreview = document.createElement('div');
+  drawPreview.className = 'wdh-draw-preview';
+  overlayContainer?.appendChild(drawPreview);
+  updateDrawPreview(point.x, point.y);
+}
+
+// シャドウルート内のマウスダウンハンドラ（図形のドラッグ開始）
+function handleShapeMouseDown(e: Event): void {
+  const mouse = e as MouseEvent;
+  if (!isEditing || mouse.button !== 0) return;
+
+  // 図形本体やハンドルのドラッグ
+  const shapeTarget = (e.target as Element).closest('[data-wdh-shape-id]') as SVGElement | null;
+  if (!shapeTarget) return;
+
+  e.preventDefault();
+  e.stopPropagation();
+  const point = getEventPagePoint(mouse);
+  shapeDrag = {
+    id: shapeTarget.dataset.wdhShapeId as string,
+    handle: (shapeTarget.dataset.handle as 'start' | 'end' | 'body') || 'body',
+    lastX: point.x,
+    lastY: point.y,
+    moved: false,
+  };
+}
+
+// マウスムーブハンドラ（描画中のプレビュー更新、図形の移動・リサイズ）
+function handleMouseMove(e: MouseEvent): void {
+  const point = getEventPagePoint(e);
+  if (shapeDrag) {
+    const shape = shapes.find(s => s.id === shapeDrag?.id);
+    if (shape) {
+      // クリックだけで履歴が増えないよう、実際に動かしたときに記録
+      if (!shapeDrag.moved) {
+        recordHistory();
+        shapeDrag.moved = true;
+      }
+      const dx = point.x - shapeDrag.lastX;
+      const dy = point.y - shapeDrag.lastY;
+      if (shapeDrag.handle !== 'end') {
+        shape.x1 += dx;
+        shape.y1 += dy;
+      }
+      if (shapeDrag.handle !== 'start') {
+        shape.x2 += dx;
+        shape.y2 += dy;
+      }
+      renderShapes();
+    }
+    shapeDrag.lastX = point.x;
+    shapeDrag.lastY = point.y;
+    return;
+  }
+
+  if (drawingShape) {
+    updateDrawingShape(point.x, point.y);
+    return;
+  }
+
+  if (!drawStart) return;
+  updateDrawPreview(point.x, point.y);
+}
+
+// マウスアップハンドラ（描画の確定、図形のドラッグ終了）
+function handleMouseUp(e: MouseEvent): void {
+  if (shapeDrag) {
+    if (shapeDrag.moved) {
+      saveState();
+    }
+    shapeDrag = null;
+    return;
+  }
+
+  if (drawingShape) {
+    finishDrawingShape();
+    return;
+  }
+
+  if (!drawStart) return;
+
+  const point = getEventPagePoint(e);
+  const top = Math.min(drawStart.y, point.y);
+  const left = Math.min(drawStart.x, point.x);
+  const width = Math.abs(point.x - drawStart.x);
+  const height = Math.abs(point.y - drawStart.y);
+  cancelDrawing();
+
+  // 小さすぎる範囲は誤操作とみなす
+  if (width < 5 || height < 5) return;
+
+  if (drawTool === 'capture') {
+    // 範囲の指定は1回ごと
+    drawTool = null;
+    updateCursorStyle();
+    updatePanel();
+    pendingCapture?.({ kind: 'region', rect: { left, top, width, height } });
+    pendingCapture = null;
+    return;
+  }
+
+  createRegion(top, left, width, height);
+}
+
+// ホバー中の候補を選択（再指定中は紐付け直す）
+function pickHoveredElement(): void {
+  const element = hoveredElement;
+  if (!element) return;
+  if (reattachingId) {
+    reattachElement(reattachingId, element);
+  } else {
+    selectElement(element);
+  }
+  // 選択した要素のハイライトは外し、ツールチップの表示を更新
+  highlightedElement = null;
+  updateHighlightBoxes();
+  updatePickTooltip();
+}
+
+// 入力欄でのキー入力か（パネル内は閉じたシャドウルートのためe.targetがホストになり、UI内のフォーカスで判定する）
+function isTypingTarget(e: KeyboardEvent): boolean {
+  const target = isUiHost(e.target) ? getUiActiveElement() : e.target as Element | null;
+  return !!target?.closest('input, textarea, select, [contenteditable="true"]');
+}
+
 // キーダウンハンドラ
 function handleKeyDown(e: KeyboardEvent): void {
+  // Ctrl+Z / Ctrl+Shift+Z（MacはCmd）で元に戻す・やり直し
+  if (isEditing && (e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'z') {
+    // 入力欄では文字入力の取り消しを優先
+    if (isTypingTarget(e)) {
+      return;
+    }
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.shiftKey) {
+      redo();
+    } else {
+      undo();
+    }
+    return;
+  }
+
+  // ホバー中は矢印キーで候補をたどり、Enterで選択
+  if (isEditing && hoveredElement && !drawTool && !e.ctrlKey && !e.metaKey && !e.altKey) {
+    const direction = WALK_KEYS[e.key];
+    if ((direction || e.key === 'Enter') && !isUiHost(e.target) && !isTypingTarget(e)) {
+      e.preventDefault();
+      e.stopPropagation();
+      if (direction) {
+        walkHoveredElement(direction);
+      } else {
+        pickHoveredElement();
+      }
+      return;
+    }
+  }
+
   if (e.key === 'Escape' && isEditing) {
+    // 描画中は描画のキャンセルのみ
+    if (drawStart || drawingShape) {
+      cancelDrawing();
+      return;
+    }
+    // 再指定中はキャンセルのみ
+    if (reattachingId) {
+      cancelReattach();
+      return;
+    }
+    // 画像を出力する範囲の指定待ちはキャンセルのみ
+    if (drawTool === 'capture') {
+      setDrawTool('capture');
+      return;
+    }
     stopEditing();
   }
 }
@@ -0,0 +1,154 @@
+import type { LegendPosition } from '../types';
+import { wrapText } from './utils';
+
+// 凡例に表示する1行分の情報
+export interface LegendItem {
+  label: string;
+  description: string;
+  tagName: string; // 範囲注釈の場合は空文字
+  hex: string;
+  depth: number; // 階層の深さ（0: トップレベル）
+}
+
+// レイアウト定数（CSS px。描画時にscaleを掛ける）
+const LEGEND_WIDTH = 360;
+const LEGEND_PADDING = 24;
+const ROW_GAP = 12;
+const BADGE_HEIGHT = 28;
+const BADGE_GAP = 12;
+const INDENT = 16;
+const LINE_HEIGHT = 20;
+const LABEL_FONT = 'bold 14px Arial, sans-serif';
+const TEXT_FONT = '13px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+
+// バッジの幅を計算（ページ上のバッジと同じく最小28px）
+function measureBadgeWidth(ctx: CanvasRenderingContext2D, label: string): number {
+  ctx.font = LABEL_FONT;
+  return Math.max(BADGE_HEIGHT, Math.ceil(ctx.measureText(label).width) + 16);
+}
+
+// 角丸矩形のパスを作成
+function roundRectPath(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number): void {
+  ctx.beginPath();
+  ctx.moveTo(x + radius, y);
+  ctx.arcTo(x + width, y, x + width, y + height, radius);
+  ctx.arcTo(x + width, y + height, x, y + height, radius);
+  ctx.arcTo(x, y + height, x, y, radius);
+  ctx.arcTo(x, y, x + width, y, radius);
+  ctx.closePath();
+}
+
+// キャプチャ画像の右または下に凡例（バッジ・ラベル・説明）を追加した新しいキャンバスを返す
+export function renderLegend(
+  source: HTMLCanvasElement,
+  items: LegendItem[],
+  position: LegendPosition,
+  scale: number = 1
+): HTMLCanvasElement {
+  if (position === 'none' || items.length === 0) {
+    return source;
+  }
+
+  // 計測用のコンテキスト
+  const measureCtx = document.createElement('canvas').getContext('2d');
+  if (!measureCtx) {
+    return source;
+  }
+
+  // 凡例領域の幅（CSS px）
+  const legendWidth = position === 'right' ? LEGEND_WIDTH : source.width / scale;
+
+  // 各行のレイアウトを計算
+  const rows = items.map(item => {
+    const indent = item.depth * INDENT;
+    const badgeWidth = measureBadgeWidth(measureCtx, item.label);
+    const textX = LEGEND_PADDING + indent + badgeWidth + BADGE_GAP;
+    const textWidth = Math.max(80, legendWidth - textX - LEGEND_PADDING);
+    // 説明がなければタグ名（範囲注釈の場合は「範囲」）
+    const text = item.description.trim() || (item.tagName ? `<${item.tagName}>` : '範囲');
+    measureCtx.font = TEXT_FONT;
+    const lines = wrapText(measureCtx, text, textWidth);
+    // 1行目をバッジの中心に揃えるため、2行目以降の分だけ高さを足す
+    const height = BADGE_HEIGHT + (lines.length - 1) * LINE_HEIGHT;
+    return { item, indent, badgeWidth, textX, lines, height };
+  });
+
+  const legendHeight = LEGEND_PADDING * 2
+    + rows.reduce((sum, row) => sum + row.height, 0)
+    + ROW_GAP * (rows.length - 1);
+
+  // 出力キャンバスを作成
+  const canvas = document.createElement('canvas');
+  if (position === 'right') {
+    canvas.width = source.width + Math.ceil(legendWidth * scale);
+    canvas.height = Math.max(source.height, Math.ceil(legendHeight * scale));
+  } else {
+    canvas.width = source.width;
+    canvas.height = source.height + Math.ceil(legendHeight * scale);
+  }
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    return source;
+  }
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(source, 0, 0);
+
+  // 凡例領域の原点へ移動し、以降はCSS px単位で描画
+  const originX = position === 'right' ? source.width : 0;
+  const originY = position === 'right' ? 0 : source.height;
+  ctx.save();
+  ctx.translate(originX, originY);
+  ctx.scale(scale, scale);
+
+  // 画像との境界線
+  ctx.strokeStyle = '#e0e0e0';
+  ctx.lineWidth = 1;
+  ctx.beginPath();
+  if (position === 'right') {
+    ctx.moveTo(0.5, 0);
+    ctx.lineTo(0.5, canvas.height / scale);
+  } else {
+    ctx.moveTo(0, 0.5);
+    ctx.lineTo(legendWidth, 0.5);
+  }
+  ctx.stroke();
+
+  let y = LEGEND_PADDING;
+  rows.forEach(row => {
+    const { item } = row;
+    const badgeX = LEGEND_PADDING + row.indent;
+
+    // バッジ（ページ上のバッジと同じ見た目）
+    roundRectPath(ctx, badgeX + 1.5, y + 1.5, row.badgeWidth - 3, BADGE_HEIGHT - 3, (BADGE_HEIGHT - 3) / 2);
+    ctx.fillStyle = '#ffffff';
+    ctx.fill();
+    ctx.strokeStyle = item.hex;
+    ctx.lineWidth = 3;
+    ctx.stroke();
+
+    ctx.font = LABEL_FONT;
+    ctx.fillStyle = item.hex;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(item.label, badgeX + row.badgeWidth / 2, y + BADGE_HEIGHT / 2);
+
+    // 説明文（未入力の場合はタグ名をグレーで表示）
+    ctx.font = TEXT_FONT;
+    ctx.fillStyle = item.description.trim() ? '#333333' : '#999999';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    // 1行目はバッジの中心に揃える
+    const firstLineY = y + BADGE_HEIGHT / 2;
+    row.lines.forEach((line, i) => {
+      ctx.fillText(line, row.textX, firstLineY + i * LINE_HEIGHT);
+    });
+
+    y += row.height + ROW_GAP;
+  });
+
+  ctx.restore();
+  return canvas;
+}
@@ -0,0 +1,169 @@
+import type { LayoutRect } from './badge-layout';
+import { setUiRootHidden } from './ui-root';
+
+// ブラウザのスクリーンショット（captureVisibleTab）でページをキャプチャする
+// ページをスクロールしながら表示範囲を1枚ずつ撮り、キャンバス上でつなぎ合わせる
+// html2canvasと違いブラウザの描画そのものなので、Webフォント・CSSフィルター・クロスオリジン画像もそのまま写る
+
+// 表示範囲をキャプチャしてPNGのdata URLを返す関数（Background経由でcaptureVisibleTabを呼ぶ）
+export type CaptureVisibleTab = () => Promise<string>;
+
+// スクロール後、遅延読み込みの画像やスクロールに応じた表示の切り替えを待つ時間（ms）
+const SCROLL_SETTLE_DELAY = 150;
+
+// スクロール位置を変えて描画が反映されるまで待つ
+async function scrollAndSettle(x: number, y: number): Promise<void> {
+  // ページのscroll-behavior: smoothでアニメーションしないよう即時に移動
+  window.scrollTo({ left: x, top: y, behavior: 'instant' });
+  await new Promise(resolve => setTimeout(resolve, SCROLL_SETTLE_DELAY));
+  await new Promise(resolve => requestAnimationFrame(() => requestAnimationFrame(resolve)));
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load captured tile'));
+    image.src = src;
+  });
+}
+
+// startからlengthの範囲を表示範囲の長さで区切ったスクロール位置（スクロールできる範囲に収める）
+function getTileOffsets(start: number, length: number, view: number, maxScroll: number): number[] {
+  const offsets: number[] = [];
+  for (let offset = start; offset < start + length; offset += view) {
+    offsets.push(Math.max(0, Math.min(offset, maxScroll)));
+  }
+  return [...new Set(offsets)];
+}
+
+// 要素のインラインスタイルを一時的に上書き（戻す関数をrestoresに積む）
+function overrideStyle(element: HTMLElement, property: string, value: string, restores: (() => void)[]): void {
+  const previousValue = element.style.getPropertyValue(property);
+  const previousPriority = element.style.getPropertyPriority(property);
+  element.style.setProperty(property, value, 'important');
+  restores.push(() => {
+    if (previousValue) {
+      element.style.setProperty(property, previousValue, previousPriority);
+    } else {
+      element.style.removeProperty(property);
+    }
+  });
+}
+
+// 追従配置（sticky）と固定配置（fixed）の要素を集める（開いたシャドウルートの中も含む）
+// 非表示（display: none）の要素の子孫は描画されないため、スタイルを調べずに読み飛ばす
+function collectPositionedElements(root: Node, sticky: HTMLElement[], fixed: HTMLElement[]): void {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT, {
+    acceptNode: node => getComputedStyle(node as Element).display === 'none' ? NodeFilter.FILTER_REJECT : NodeFilter.FILTER_ACCEPT,
+  });
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const element = node as HTMLElement;
+    const position = getComputedStyle(element).position;
+    if (position === 'sticky') {
+      sticky.push(element);
+    } else if (position === 'fixed') {
+      fixed.push(element);
+    }
+    if (element.shadowRoot) {
+      collectPositionedElements(element.shadowRoot, sticky, fixed);
+    }
+  }
+}
+
+// ページの指定範囲（ページ座標、CSS px）をスクロールしながらキャプチャ
+// キャンバスはスクリーンショットの解像度（devicePixelRatio倍）で作成する
+export async function captureByScrolling(area: LayoutRect, captureVisibleTab: CaptureVisibleTab): Promise<HTMLCanvasElement> {
+  const html = document.documentElement;
+  // スクロールバーを除いた表示範囲
+  const viewWidth = html.clientWidth;
+  const viewHeight = html.clientHeight;
+  const maxScrollX = Math.max(document.body.scrollWidth, html.scrollWidth) - viewWidth;
+  const maxScrollY = Math.max(document.body.scrollHeight, html.scrollHeight) - viewHeight;
+  const areaRight = area.left + area.width;
+  const areaBottom = area.top + area.height;
+  const startX = window.scrollX;
+  const startY = window.scrollY;
+  const restores: (() => void)[] = [];
+
+  // 枠やパネルなどのUIは写さない（枠とバッジは呼び出し側で位置から描く）
+  setUiRootHidden(true);
+
+  // 追従配置（sticky）の要素は各タイルで貼り付いて重複するため、元の位置に留める（relativeならレイアウトは変わらない）
+  // 固定配置（fixed）の要素は、ページの左上から撮る場合は最初のタイル（ページ先頭での本来の位置）にだけ写し、以降は非表示にする
+  // 途中から撮る範囲では本来の位置に写らず範囲の上に重なるため、最初から写さない
+  const stickyElements: HTMLElement[] = [];
+  const fixedElements: HTMLElement[] = [];
+  if (document.body) {
+    collectPositionedElements(document.body, stickyElements, fixedElements);
+  }
+  stickyElements.forEach(element => {
+    overrideStyle(element, 'position', 'relative', restores);
+    overrideStyle(element, 'inset', 'auto', restores);
+  });
+  const hideFixedElements = () => fixedElements.forEach(element => overrideStyle(element, 'visibility', 'hidden', restores));
+  const fromPageTop = area.left <= 0 && area.top <= 0;
+  if (!fromPageTop) {
+    hideFixedElements();
+  }
+
+  try {
+    let canvas: HTMLCanvasElement | null = null;
+    let ctx: CanvasRenderingContext2D | null = null;
+    let scale = 1;
+    // 前のタイルと重なる部分は描き直さない（最初のタイルにだけ写した固定配置の要素を消さないため）
+    let coveredBottom = area.top;
+
+    for (const y of getTileOffsets(area.top, area.height, viewHeight, maxScrollY)) {
+      let coveredRight = area.left;
+      let rowBottom = coveredBottom;
+      for (const x of getTileOffsets(area.left, area.width, viewWidth, maxScrollX)) {
+        await scrollAndSettle(x, y);
+        // ページ側の制限で指定どおりにスクロールできない場合があるため実際の位置を使う
+        const tileX = window.scrollX;
+        const tileY = window.scrollY;
+        const image = await loadImage(await captureVisibleTab());
+
+        if (!canvas || !ctx) {
+          // スクリーンショットはウィンドウ全体（スクロールバーを含む）を画面の解像度で写す
+          scale = image.width / window.innerWidth;
+          canvas = document.createElement('canvas');
+          canvas.width = Math.round(area.width * scale);
+          canvas.height = Math.round(area.height * scale);
+          ctx = canvas.getContext('2d');
+          if (!ctx) {
+            throw new Error('Canvas is too large');
+          }
+          if (fromPageTop) {
+            hideFixedElements();
+          }
+        }
+
+        // タイルのうち範囲内で、まだ描いていない部分
+        const left = Math.max(tileX, coveredRight);
+        const top = Math.max(tileY, coveredBottom);
+        const width = Math.min(tileX + viewWidth, areaRight) - left;
+        const height = Math.min(tileY + viewHeight, areaBottom) - top;
+        if (width > 0 && height > 0) {
+          ctx.drawImage(
+            image,
+            (left - tileX) * scale, (top - tileY) * scale, width * scale, height * scale,
+            (left - area.left) * scale, (top - area.top) * scale, width * scale, height * scale,
+          );
+        }
+        coveredRight = tileX + viewWidth;
+        rowBottom = Math.max(rowBottom, tileY + viewHeight);
+      }
+      coveredBottom = rowBottom;
+    }
+
+    if (!canvas) {
+      throw new Error('Nothing to capture');
+    }
+    return canvas;
+  } finally {
+    restores.reverse().forEach(restore => restore());
+    window.scrollTo({ left: startX, top: startY, behavior: 'instant' });
+    setUiRootHidden(false);
+  }
+}
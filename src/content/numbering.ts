@@ -0,0 +1,168 @@
+import type { NumberingScheme, NumberingStyle, SelectedElement } from '../types';
+import { NUMBERING_SEPARATORS, NUMBERING_STYLES } from '../types';
+
+// 丸数字（①〜㊿）。51以上は算用数字で表す
+const CIRCLED_NUMBERS = [
+  ...Array.from({ length: 20 }, (_, i) => String.fromCharCode(0x2460 + i)), // ①〜⑳
+  ...Array.from({ length: 15 }, (_, i) => String.fromCharCode(0x3251 + i)), // ㉑〜㉟
+  ...Array.from({ length: 15 }, (_, i) => String.fromCharCode(0x32b1 + i)), // ㊱〜㊿
+];
+
+// ローマ数字の記号と値（大きい順、減算表記を含む）
+const ROMAN_NUMERALS: [string, number][] = [
+  ['M', 1000], ['CM', 900], ['D', 500], ['CD', 400],
+  ['C', 100], ['XC', 90], ['L', 50], ['XL', 40],
+  ['X', 10], ['IX', 9], ['V', 5], ['IV', 4], ['I', 1],
+];
+
+// 1 → A, 26 → Z, 27 → AA のようなアルファベット表記
+function toAlpha(n: number): string {
+  let result = '';
+  let rest = n;
+  while (rest > 0) {
+    rest--;
+    result = String.fromCharCode(65 + (rest % 26)) + result;
+    rest = Math.floor(rest / 26);
+  }
+  return result;
+}
+
+function fromAlpha(text: string): number | null {
+  if (!/^[A-Z]+$/.test(text)) return null;
+  return [...text].reduce((n, c) => n * 26 + (c.charCodeAt(0) - 64), 0);
+}
+
+function toRoman(n: number): string {
+  let result = '';
+  let rest = n;
+  ROMAN_NUMERALS.forEach(([symbol, value]) => {
+    while (rest >= value) {
+      result += symbol;
+      rest -= value;
+    }
+  });
+  return result;
+}
+
+function fromRoman(text: string): number | null {
+  if (!/^[MDCLXVI]+$/.test(text)) return null;
+  let n = 0;
+  let rest = text;
+  ROMAN_NUMERALS.forEach(([symbol, value]) => {
+    while (rest.startsWith(symbol)) {
+      n += value;
+      rest = rest.slice(symbol.length);
+    }
+  });
+  // "IIII" のような正しくない表記は番号とみなさない
+  return toRoman(n) === text ? n : null;
+}
+
+// 番号を書式に従って文字列にする
+export function formatNumber(n: number, style: NumberingStyle): string {
+  switch (style) {
+    case 'upper-alpha':
+      return toAlpha(n);
+    case 'lower-alpha':
+      return toAlpha(n).toLowerCase();
+    case 'circled':
+      return CIRCLED_NUMBERS[n - 1] ?? String(n);
+    case 'lower-roman':
+      return toRoman(n).toLowerCase();
+    case 'upper-roman':
+      return toRoman(n);
+    default:
+      return String(n);
+  }
+}
+
+// 書式に従った文字列を番号に戻す（書式に合わなければnull）
+function parseNumber(text: string, style: NumberingStyle): number | null {
+  switch (style) {
+    case 'upper-alpha':
+      return fromAlpha(text);
+    case 'lower-alpha':
+      return text === text.toLowerCase() ? fromAlpha(text.toUpperCase()) : null;
+    case 'circled': {
+      const index = CIRCLED_NUMBERS.indexOf(text);
+      return index >= 0 ? index + 1 : null;
+    }
+    case 'lower-roman':
+      return text === text.toLowerCase() ? fromRoman(text.toUpperCase()) : null;
+    case 'upper-roman':
+      return fromRoman(text);
+    default:
+      return /^\d+$/.test(text) ? parseInt(text, 10) : null;
+  }
+}
+
+// 階層の書式（設定より深い階層は最後の書式）
+function getLevelStyle(scheme: NumberingScheme, depth: number): NumberingStyle {
+  return scheme.levels[Math.min(depth, scheme.levels.length - 1)] ?? 'decimal';
+}
+
+// 親のラベルと兄弟の中での連番から自動のラベルを作成（例: "3" の2番目の子は "3-2"）
+export function buildLabel(parentLabel: string | null, number: number, depth: number, scheme: NumberingScheme): string {
+  const text = formatNumber(number, getLevelStyle(scheme, depth));
+  return parentLabel ? `${parentLabel}${scheme.separator}${text}` : text;
+}
+
+// 自動のラベルから兄弟の中での連番を取得（連番の形でなければnull）
+// 書式や区切り文字を途中で変えても次の番号を続けられるよう、現在の書式で読めなければ他の書式も試す
+// 手動のラベル（"OK" や "FAQ" など）は他の書式で大きな番号に読めてしまうため渡さないこと
+export function parseLabelNumber(
+  label: string,
+  parentLabel: string | null,
+  depth: number,
+  scheme: NumberingScheme
+): number | null {
+  let segment = label;
+  if (parentLabel !== null) {
+    const prefix = NUMBERING_SEPARATORS.map(separator => `${parentLabel}${separator}`)
+      .find(p => label.startsWith(p));
+    if (prefix) {
+      segment = label.slice(prefix.length);
+    } else {
+      // 親のラベルが後から変わった場合は最後の区切り文字以降を使う
+      const lastIndex = Math.max(...NUMBERING_SEPARATORS.map(separator => label.lastIndexOf(separator)));
+      segment = label.slice(lastIndex + 1);
+    }
+  }
+
+  const styles = [getLevelStyle(scheme, depth), ...NUMBERING_STYLES.map(s => s.value)];
+  for (const style of styles) {
+    const n = parseNumber(segment, style);
+    if (n !== null && n > 0) return n;
+  }
+  return null;
+}
+
+// 一覧の順に番号を振り直したラベルを計算（子のラベルは親の新しいラベルに従う）
+// keepCustomLabelsがtrueの場合、手動で変更したラベルはそのまま残し連番も消費しない
+export function renumberLabels(
+  elements: SelectedElement[],
+  keepCustomLabels: boolean,
+  scheme: NumberingScheme
+): Map<string, string> {
+  const labels = new Map<string, string>();
+  const ids = new Set(elements.map(e => e.id));
+
+  const visit = (parentId: string | null, parentLabel: string | null, depth: number) => {
+    let number = 0;
+    elements
+      .filter(e => parentId
+        ? e.parentId === parentId
+        // 親が見つからない要素もトップレベルとして扱う
+        : e.parentId === null || !ids.has(e.parentId))
+      .forEach(el => {
+        const label = keepCustomLabels && el.customLabel
+          ? el.label
+          : buildLabel(parentLabel, ++number, depth, scheme);
+        labels.set(el.id, label);
+        visit(el.id, label, depth + 1);
+      });
+  };
+  visit(null, null, 0);
+
+  return labels;
+}
@@ -0,0 +1,90 @@
+// 画像のページを並べたPDFを作成する
+// 日本語の文字をフォントを埋め込まずに確実に表示するため、各ページはキャンバスに描いてJPEG画像として格納する
+
+export interface PdfPage {
+  jpeg: Uint8Array<ArrayBuffer>; // ページ全体の画像（JPEG）
+  pixelWidth: number;
+  pixelHeight: number;
+  width: number; // ページの大きさ（pt）
+  height: number;
+}
+
+export interface PdfInfo {
+  title: string;
+  created: Date;
+}
+
+// PDFの日付形式（D:YYYYMMDDHHmmSS）
+function toPdfDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `D:${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+// 日本語を含む文字列をUTF-16BEの16進文字列にする（文書情報のタイトル用）
+function toPdfTextString(text: string): string {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+}
+
+// PDFファイルを作成
+export function createPdf(pages: PdfPage[], info: PdfInfo): Blob {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array<ArrayBuffer>[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array<ArrayBuffer>) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  // オブジェクト番号は1から順に振る（xrefのためにファイル内の位置を記録）
+  const writeObject = (id: number, body: string, stream?: Uint8Array<ArrayBuffer>) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  // ヘッダー（2行目はバイナリを含むことを示すコメント）
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  // 1: カタログ、2: ページツリー、3: 文書情報、4以降: ページごとにページ・内容・画像
+  const pageId = (index: number) => 4 + index * 3;
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+  writeObject(3, `<< /Title ${toPdfTextString(info.title)} /Producer (Web Design Helper) /CreationDate (${toPdfDate(info.created)}) >>`);
+
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    writeObject(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>`);
+    // 画像をページ全体に広げて描く
+    const content = encoder.encode(`q ${page.width} 0 0 ${page.height} 0 0 cm /Im0 Do Q`);
+    writeObject(id + 1, `<< /Length ${content.length} >>`, content);
+    writeObject(
+      id + 2,
+      `<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>`,
+      page.jpeg,
+    );
+  });
+
+  // 相互参照表とトレーラー
+  const objectCount = 3 + pages.length * 3;
+  const xrefOffset = length;
+  let xref = `xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`;
+  for (let id = 1; id <= objectCount; id++) {
+    xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  write(xref);
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+}
@@ -0,0 +1,32 @@
+import { HISTORY_CHANGE_EVENT } from '../types';
+
+// SPAのページ遷移（再読み込みを伴わないURLの変化）を監視する
+// history.pushState・replaceStateはページのスクリプトから呼ばれ、Content Scriptの隔離された環境では検知できないため、
+// BackgroundがページのJavaScript環境に注入したフックが発行するイベントを受ける
+// フックを注入できないページ（権限がない場合など）に備え、URLの定期確認も併用する
+
+// URLの定期確認の間隔（ms）
+const POLL_INTERVAL = 1000;
+
+// URLの変化を監視（戻り値は監視の停止）
+export function watchRouteChanges(onNavigate: () => void): () => void {
+  let currentUrl = location.href;
+
+  const check = () => {
+    if (location.href === currentUrl) return;
+    currentUrl = location.href;
+    onNavigate();
+  };
+
+  window.addEventListener('popstate', check);
+  window.addEventListener('hashchange', check);
+  window.addEventListener(HISTORY_CHANGE_EVENT, check);
+  const timer = setInterval(check, POLL_INTERVAL);
+
+  return () => {
+    window.removeEventListener('popstate', check);
+    window.removeEventListener('hashchange', check);
+    window.removeEventListener(HISTORY_CHANGE_EVENT, check);
+    clearInterval(timer);
+  };
+}
@@ -0,0 +1,306 @@
+import type { NumberingScheme, SavedState, SelectedElement, Shape } from '../types';
+import {
+  BADGE_ANCHORS,
+  BADGE_SIDES,
+  DEFAULT_NUMBERING_SCHEME,
+  FILL_OPACITIES,
+  LEGEND_POSITIONS,
+  NUMBERING_SEPARATORS,
+  NUMBERING_STYLES,
+  SHAPE_TYPES,
+  STROKE_STYLES,
+  STROKE_WIDTH_MAX,
+  STROKE_WIDTH_MIN,
+  TABLE_FORMATS,
+} from '../types';
+
+// 保存データの現在のスキーマバージョン
+// 形式を変更したらバージョンを上げ、MIGRATIONSに旧バージョンからの変換を追加する
+export const CURRENT_SCHEMA_VERSION = 9;
+
+type RawState = Record<string, unknown>;
+
+// v7までの色名とHEXの対応
+const LEGACY_COLOR_HEX: Record<string, string> = {
+  red: '#ff0000',
+  blue: '#0066ff',
+  green: '#00aa00',
+  yellow: '#ffaa00',
+  black: '#333333',
+};
+
+// 色名をHEXに変換（未知の値は赤）
+function toHexColor(color: unknown): string {
+  if (typeof color === 'string' && /^#[0-9a-f]{6}$/i.test(color)) return color.toLowerCase();
+  return LEGACY_COLOR_HEX[String(color)] ?? '#ff0000';
+}
+
+// 各バージョンから次のバージョンへの変換（キーは変換元のバージョン）
+const MIGRATIONS: Record<number, (data: RawState) => RawState> = {
+  // v1: schemaVersionを持たない初期形式（padding未対応のデータを含む）
+  // v2: 説明文、凡例の配置、仕様表の形式を追加
+  1: (data) => ({
+    ...data,
+    elements: (Array.isArray(data.elements) ? data.elements : []).map((el: RawState) => ({
+      ...el,
+      padding: el.padding ?? 0,
+      description: el.description ?? '',
+    })),
+    nextNumber: data.nextNumber || 1,
+    focusedElementId: data.focusedElementId || null,
+    focusedSubNumber: data.focusedSubNumber || 1,
+    legendPosition: data.legendPosition || 'none',
+    tableFormat: data.tableFormat || 'markdown',
+  }),
+  // v3: 要素の再特定用の手がかり（fingerprint）を追加
+  // 旧データにはセレクタしかないため、手がかりは空にしてセレクタでの一致に頼る
+  2: (data) => ({
+    ...data,
+    elements: (Array.isArray(data.elements) ? data.elements : []).map((el: RawState) => ({
+      ...el,
+      fingerprint: el.fingerprint ?? {
+        elementId: '',
+        testId: '',
+        ariaLabel: '',
+        text: '',
+        path: '',
+        xpath: '',
+      },
+    })),
+  }),
+  // v4: 要素に紐付かない範囲注釈を追加（既存データはすべて要素注釈）
+  3: (data) => ({
+    ...data,
+    elements: (Array.isArray(data.elements) ? data.elements : []).map((el: RawState) => ({
+      ...el,
+      kind: el.kind ?? 'element',
+    })),
+  }),
+  // v5: 矢印・直線・テキスト吹き出しの図形を追加
+  4: (data) => ({
+    ...data,
+    shapes: Array.isArray(data.shapes) ? data.shapes : [],
+  }),
+  // v6: 番号の振り直しを追加
+  // 手動で変更したかの記録がないため、自動の連番（"1", "1-2"など）の形でないラベルを手動とみなす
+  5: (data) => ({
+    ...data,
+    elements: (Array.isArray(data.elements) ? data.elements : []).map((el: RawState) => ({
+      ...el,
+      customLabel: el.customLabel ?? !/^\d+(-\d+)*$/.test(String(el.label ?? '')),
+    })),
+    keepCustomLabels: data.keepCustomLabels ?? true,
+  }),
+  // v7: 番号の書式と区切り文字を追加（既存データは従来どおり "1-1" 形式）
+  6: (data) => ({
+    ...data,
+    numbering: data.numbering ?? { levels: ['decimal', 'decimal', 'decimal'], separator: '-' },
+  }),
+  // v8: 色をパレットの色名からHEXに変更し、枠線の種類・太さと塗りを追加（既存データは3pxの実線）
+  7: (data) => ({
+    ...data,
+    elements: (Array.isArray(data.elements) ? data.elements : []).map((el: RawState) => ({
+      ...el,
+      color: toHexColor(el.color),
+      strokeStyle: el.strokeStyle ?? 'solid',
+      strokeWidth: el.strokeWidth ?? 3,
+      fillOpacity: el.fillOpacity ?? 0,
+    })),
+    shapes: (Array.isArray(data.shapes) ? data.shapes : []).map((shape: RawState) => ({
+      ...shape,
+      color: toHexColor(shape.color),
+    })),
+  }),
+  // v9: 番号バッジの位置を追加（既存データは従来どおり枠の左上の角の上）
+  8: (data) => ({
+    ...data,
+    elements: (Array.isArray(data.elements) ? data.elements : []).map((el: RawState) => ({
+      ...el,
+      badgeAnchor: el.badgeAnchor ?? 'top-left',
+      badgeSide: el.badgeSide ?? 'edge',
+    })),
+  }),
+};
+
+// 保存データのバージョン（schemaVersionがない場合は初期形式）
+function getSchemaVersion(data: RawState): number {
+  return typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+}
+
+// 注釈・図形のIDとして使える値（パネルのHTMLの属性に埋め込むため記号を含まない）
+function isValidId(value: unknown): value is string {
+  return typeof value === 'string' && /^[\w-]{1,100}$/.test(value);
+}
+
+function isRecord(value: unknown): value is RawState {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toText(value: unknown, fallback: string = ''): string {
+  return typeof value === 'string' ? value : fallback;
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+// 範囲内の数値に丸める（数値でなければfallback）
+function toNumberInRange(value: unknown, min: number, max: number, fallback: number): number {
+  return Math.min(max, Math.max(min, toNumber(value, fallback)));
+}
+
+// 選択肢のいずれか（どれでもなければfallback）
+function toOption<T>(value: unknown, options: { value: T }[], fallback: T): T {
+  return options.find(o => o.value === value)?.value ?? fallback;
+}
+
+// 親を持つ注釈の親が一覧にない場合や、親をたどると循環する場合は最上位の注釈にする
+function repairParents(elements: SelectedElement[]): void {
+  const byId = new Map(elements.map(el => [el.id, el]));
+  elements.forEach(el => {
+    if (el.parentId !== null && !byId.has(el.parentId)) {
+      el.parentId = null;
+    }
+  });
+  elements.forEach(el => {
+    const visited = new Set<string>([el.id]);
+    let parent = el.parentId ? byId.get(el.parentId) : undefined;
+    while (parent) {
+      if (visited.has(parent.id)) {
+        el.parentId = null;
+        return;
+      }
+      visited.add(parent.id);
+      parent = parent.parentId ? byId.get(parent.parentId) : undefined;
+    }
+  });
+}
+
+// 注釈の各項目を検証し、壊れた値は既定値に直す（IDが不正または重複する注釈は捨てる）
+function sanitizeElements(raw: unknown[]): SelectedElement[] {
+  const ids = new Set<string>();
+  const elements = raw.flatMap((el): SelectedElement[] => {
+    if (!isRecord(el) || !isValidId(el.id) || ids.has(el.id)) return [];
+    ids.add(el.id);
+    const fingerprint = isRecord(el.fingerprint) ? el.fingerprint : {};
+    const rect = isRecord(el.rect) ? el.rect : {};
+    return [{
+      id: el.id,
+      kind: el.kind === 'region' ? 'region' : 'element',
+      label: toText(el.label),
+      customLabel: el.customLabel === true,
+      parentId: isValidId(el.parentId) ? el.parentId : null,
+      selector: toText(el.selector),
+      tagName: typeof el.tagName === 'string' && /^[a-z][a-z0-9-]*$/i.test(el.tagName) ? el.tagName.toLowerCase() : 'div',
+      color: toHexColor(el.color),
+      strokeStyle: toOption(el.strokeStyle, STROKE_STYLES, 'solid'),
+      strokeWidth: Math.round(toNumberInRange(el.strokeWidth, STROKE_WIDTH_MIN, STROKE_WIDTH_MAX, 3)),
+      fillOpacity: toOption(el.fillOpacity, FILL_OPACITIES, 0),
+      padding: Math.round(toNumberInRange(el.padding, 0, 50, 0)),
+      badgeAnchor: toOption(el.badgeAnchor, BADGE_ANCHORS, 'auto'),
+      badgeSide: toOption(el.badgeSide, BADGE_SIDES, 'edge'),
+      description: toText(el.description),
+      fingerprint: {
+        elementId: toText(fingerprint.elementId),
+        testId: toText(fingerprint.testId),
+        ariaLabel: toText(fingerprint.ariaLabel),
+        text: toText(fingerprint.text),
+        path: toText(fingerprint.path),
+        xpath: toText(fingerprint.xpath),
+      },
+      rect: {
+        top: toNumber(rect.top, 0),
+        left: toNumber(rect.left, 0),
+        width: Math.max(0, toNumber(rect.width, 0)),
+        height: Math.max(0, toNumber(rect.height, 0)),
+      },
+    }];
+  });
+  repairParents(elements);
+  return elements;
+}
+
+// 図形の各項目を検証し、壊れた値は既定値に直す（IDや種類が不正な図形は捨てる）
+function sanitizeShapes(raw: unknown, elementIds: Set<string>): Shape[] {
+  if (!Array.isArray(raw)) return [];
+  const ids = new Set<string>();
+  return raw.flatMap((shape): Shape[] => {
+    if (!isRecord(shape) || !isValidId(shape.id) || ids.has(shape.id)) return [];
+    const type = SHAPE_TYPES.find(t => t.value === shape.type)?.value;
+    if (!type) return [];
+    ids.add(shape.id);
+    return [{
+      id: shape.id,
+      type,
+      color: toHexColor(shape.color),
+      attachedTo: isValidId(shape.attachedTo) && elementIds.has(shape.attachedTo) ? shape.attachedTo : null,
+      x1: toNumber(shape.x1, 0),
+      y1: toNumber(shape.y1, 0),
+      x2: toNumber(shape.x2, 0),
+      y2: toNumber(shape.y2, 0),
+      text: toText(shape.text),
+    }];
+  });
+}
+
+// 番号の振り方を検証（不正な値は既定値）
+function sanitizeNumbering(raw: unknown): NumberingScheme {
+  const numbering = isRecord(raw) ? raw : {};
+  const levels = Array.isArray(numbering.levels)
+    ? numbering.levels.flatMap(level => NUMBERING_STYLES.filter(s => s.value === level).map(s => s.value))
+    : [];
+  return {
+    levels: levels.length > 0 ? levels : [...DEFAULT_NUMBERING_SCHEME.levels],
+    separator: typeof numbering.separator === 'string' && NUMBERING_SEPARATORS.includes(numbering.separator)
+      ? numbering.separator
+      : DEFAULT_NUMBERING_SCHEME.separator,
+  };
+}
+
+// 現在の形式に変換したデータの各項目を検証して直す
+// 保存データやJSONファイルの値はパネルのHTMLや出力に使うため、型と形式をそろえてから読み込む
+function sanitizeState(data: RawState): SavedState {
+  const elements = sanitizeElements(data.elements as unknown[]);
+  const elementIds = new Set(elements.map(el => el.id));
+  return {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    elements,
+    nextNumber: Math.round(toNumberInRange(data.nextNumber, 1, Number.MAX_SAFE_INTEGER, 1)),
+    focusedElementId: isValidId(data.focusedElementId) && elementIds.has(data.focusedElementId) ? data.focusedElementId : null,
+    focusedSubNumber: Math.round(toNumberInRange(data.focusedSubNumber, 1, Number.MAX_SAFE_INTEGER, 1)),
+    legendPosition: toOption(data.legendPosition, LEGEND_POSITIONS, 'none'),
+    tableFormat: toOption(data.tableFormat, TABLE_FORMATS, 'markdown'),
+    shapes: sanitizeShapes(data.shapes, elementIds),
+    keepCustomLabels: data.keepCustomLabels !== false,
+    numbering: sanitizeNumbering(data.numbering),
+  };
+}
+
+// 任意のバージョンの保存データを現在の形式に変換（読み込めない場合は例外を投げる）
+export function migrateState(raw: unknown): SavedState {
+  if (!isRecord(raw)) {
+    throw new Error('保存データの形式が正しくありません');
+  }
+  // 初期形式の変換は要素一覧がなくても空で補うため、変換前に確かめる
+  if (!Array.isArray(raw.elements)) {
+    throw new Error('保存データに要素一覧が含まれていません');
+  }
+
+  let data = raw;
+  let version = getSchemaVersion(data);
+
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`新しいバージョンの保存データです（v${version}）。拡張機能を更新してください`);
+  }
+
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) {
+      throw new Error(`未対応のバージョンの保存データです（v${version}）`);
+    }
+    data = migrate(data);
+    version++;
+  }
+
+  return sanitizeState(data);
+}
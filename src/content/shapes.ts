@@ -0,0 +1,325 @@
+import type { Shape } from '../types';
+import { wrapText } from './utils';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// 描画定数
+const STROKE_WIDTH = 3;
+const ARROW_HEAD_LENGTH = 14;
+const ARROW_HEAD_WIDTH = 12;
+const CALLOUT_PADDING = 8;
+const CALLOUT_LINE_HEIGHT = 18;
+const CALLOUT_BORDER_WIDTH = 2;
+const CALLOUT_FONT_SIZE = 13;
+const CALLOUT_FONT_FAMILY = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+const CALLOUT_FONT = `${CALLOUT_FONT_SIZE}px ${CALLOUT_FONT_FAMILY}`;
+const HANDLE_RADIUS = 5;
+
+// ページ座標に解決した図形の位置
+export interface ShapePoints {
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+}
+
+// 描画対象の図形（位置と色は解決済み）
+export interface ResolvedShape {
+  shape: Shape;
+  points: ShapePoints;
+  hex: string;
+}
+
+// テキスト計測用のコンテキスト
+let measureCtx: CanvasRenderingContext2D | null = null;
+
+// 吹き出しの本文を枠の幅で折り返す
+function layoutCalloutText(text: string, width: number): string[] {
+  if (!measureCtx) {
+    measureCtx = document.createElement('canvas').getContext('2d');
+  }
+  if (!measureCtx) {
+    return text.split('\n');
+  }
+  measureCtx.font = CALLOUT_FONT;
+  return wrapText(measureCtx, text, Math.max(10, width - CALLOUT_PADDING * 2));
+}
+
+// 吹き出しの矩形（始点・終点の向きによらず左上基準）
+function getCalloutRect(p: ShapePoints): { x: number; y: number; width: number; height: number } {
+  return {
+    x: Math.min(p.x1, p.x2),
+    y: Math.min(p.y1, p.y2),
+    width: Math.abs(p.x2 - p.x1),
+    height: Math.abs(p.y2 - p.y1),
+  };
+}
+
+// 矢じりの3点（終点が先端）
+function getArrowHead(p: ShapePoints): [number, number][] {
+  const angle = Math.atan2(p.y2 - p.y1, p.x2 - p.x1);
+  const baseX = p.x2 - ARROW_HEAD_LENGTH * Math.cos(angle);
+  const baseY = p.y2 - ARROW_HEAD_LENGTH * Math.sin(angle);
+  const offsetX = (ARROW_HEAD_WIDTH / 2) * Math.sin(angle);
+  const offsetY = (ARROW_HEAD_WIDTH / 2) * Math.cos(angle);
+  return [
+    [p.x2, p.y2],
+    [baseX + offsetX, baseY - offsetY],
+    [baseX - offsetX, baseY + offsetY],
+  ];
+}
+
+// 矢印の線は矢じりの根元で止める（先端が太い線で潰れないように）
+function getArrowLineEnd(p: ShapePoints): { x: number; y: number } {
+  const length = Math.hypot(p.x2 - p.x1, p.y2 - p.y1);
+  if (length <= ARROW_HEAD_LENGTH) {
+    return { x: p.x1, y: p.y1 };
+  }
+  const ratio = (length - ARROW_HEAD_LENGTH) / length;
+  return { x: p.x1 + (p.x2 - p.x1) * ratio, y: p.y1 + (p.y2 - p.y1) * ratio };
+}
+
+// SVG要素を作成
+export function createSvgElement<K extends keyof SVGElementTagNameMap>(tag: K, attrs: Record<string, string | number>): SVGElementTagNameMap[K] {
+  const el = document.createElementNS(SVG_NS, tag);
+  Object.entries(attrs).forEach(([key, value]) => el.setAttribute(key, String(value)));
+  return el;
+}
+
+// 図形レイヤー（オーバーレイコンテナ内のSVG）を作成
+export function createShapeLayer(): SVGSVGElement {
+  const layer = createSvgElement('svg', {});
+  layer.classList.add('wdh-shape-layer');
+  return layer;
+}
+
+// 文字の中心からベースラインまでの距離（文字の大きさに対する比率）
+// 出力したSVGはdominant-baselineに対応しないツールで開かれるため、ベースラインの位置をこの比率から求める
+export const CENTRAL_BASELINE_RATIO = 0.35;
+
+// 作成・更新するSVG要素の内容
+interface SvgNodeSpec {
+  tag: keyof SVGElementTagNameMap;
+  attrs: Record<string, string | number>;
+  className?: string;
+  text?: string;
+  children?: SvgNodeSpec[];
+}
+
+function createSvgNode(spec: SvgNodeSpec): SVGElement {
+  const el = createSvgElement(spec.tag, spec.attrs);
+  if (spec.className) {
+    el.classList.add(spec.className);
+  }
+  if (spec.text !== undefined) {
+    el.textContent = spec.text;
+  }
+  spec.children?.forEach(child => el.appendChild(createSvgNode(child)));
+  return el;
+}
+
+// 既存のSVG要素を内容に合わせて書き換える（要素の構成が違い書き換えられない場合はfalse）
+// 変わった属性だけを書き込み、図形の移動のたびに要素を作り直さない
+function patchSvgNode(el: Element, spec: SvgNodeSpec): boolean {
+  const children = spec.children ?? [];
+  if (el.tagName !== spec.tag || el.children.length !== children.length) return false;
+  Object.entries(spec.attrs).forEach(([key, value]) => {
+    if (el.getAttribute(key) !== String(value)) {
+      el.setAttribute(key, String(value));
+    }
+  });
+  if (spec.text !== undefined && el.textContent !== spec.text) {
+    el.textContent = spec.text;
+  }
+  return children.every((child, i) => patchSvgNode(el.children[i], child));
+}
+
+// 図形のグループの内容（editableならドラッグ用の当たり判定とハンドルも付ける）
+function getShapeGroupSpec({ shape, points: p, hex }: ResolvedShape, editable: boolean): SvgNodeSpec {
+  const children: SvgNodeSpec[] = [];
+  const dragAttrs: Record<string, string> = editable ? { 'data-wdh-shape-id': shape.id, 'data-handle': 'body' } : {};
+
+  if (shape.type === 'callout') {
+    const rect = getCalloutRect(p);
+    // 出力用は行の上端ではなくベースラインの位置を指定する
+    const textY = rect.y + CALLOUT_PADDING + (editable ? 0 : CALLOUT_FONT_SIZE * (0.5 + CENTRAL_BASELINE_RATIO));
+    children.push({
+      tag: 'rect',
+      attrs: {
+        x: rect.x,
+        y: rect.y,
+        width: rect.width,
+        height: rect.height,
+        rx: 4,
+        fill: '#ffffff',
+        stroke: hex,
+        'stroke-width': CALLOUT_BORDER_WIDTH,
+        ...dragAttrs,
+      },
+    });
+
+    children.push({
+      tag: 'text',
+      attrs: {
+        x: rect.x + CALLOUT_PADDING,
+        y: textY,
+        fill: '#333333',
+        'font-size': CALLOUT_FONT_SIZE,
+        // 出力したSVGにはスタイルシートがないため書体を属性で指定
+        ...(editable ? { 'dominant-baseline': 'hanging' } : { 'font-family': CALLOUT_FONT_FAMILY }),
+      },
+      className: editable ? 'wdh-shape-text' : undefined,
+      children: layoutCalloutText(shape.text, rect.width).map((line, i) => ({
+        tag: 'tspan',
+        attrs: {
+          x: rect.x + CALLOUT_PADDING,
+          y: textY + i * CALLOUT_LINE_HEIGHT,
+        },
+        text: line,
+      })),
+    });
+  } else {
+    const end = shape.type === 'arrow' ? getArrowLineEnd(p) : { x: p.x2, y: p.y2 };
+    children.push({
+      tag: 'line',
+      attrs: {
+        x1: p.x1,
+        y1: p.y1,
+        x2: end.x,
+        y2: end.y,
+        stroke: hex,
+        'stroke-width': STROKE_WIDTH,
+        'stroke-linecap': 'round',
+      },
+    });
+    if (shape.type === 'arrow') {
+      children.push({
+        tag: 'polygon',
+        attrs: {
+          points: getArrowHead(p).map(([x, y]) => `${x},${y}`).join(' '),
+          fill: hex,
+        },
+      });
+    }
+    if (editable) {
+      // 細い線でもつかみやすいよう透明な太線で当たり判定を広げる
+      children.push({
+        tag: 'line',
+        attrs: {
+          x1: p.x1,
+          y1: p.y1,
+          x2: p.x2,
+          y2: p.y2,
+          stroke: 'transparent',
+          'stroke-width': 12,
+          ...dragAttrs,
+        },
+        className: 'wdh-shape-hit',
+      });
+    }
+  }
+
+  if (editable) {
+    // 始点・終点（calloutは対角の角）のリサイズ用ハンドル
+    ([['start', p.x1, p.y1], ['end', p.x2, p.y2]] as const).forEach(([handle, cx, cy]) => {
+      children.push({
+        tag: 'circle',
+        attrs: {
+          cx,
+          cy,
+          r: HANDLE_RADIUS,
+          fill: '#ffffff',
+          stroke: hex,
+          'stroke-width': 2,
+          'data-wdh-shape-id': shape.id,
+          'data-handle': handle,
+        },
+        className: 'wdh-shape-handle',
+      });
+    });
+  }
+
+  return {
+    tag: 'g',
+    attrs: editable ? { 'data-wdh-shape': shape.id } : { 'data-shape-type': shape.type },
+    className: editable ? 'wdh-shape' : undefined,
+    children,
+  };
+}
+
+// 図形レイヤーを更新（ドラッグ用の当たり判定とハンドルを含む）
+// 既にある図形は要素を作り直さずに属性だけを書き換える
+export function renderShapeLayer(layer: SVGSVGElement, shapes: ResolvedShape[], width: number, height: number): void {
+  if (layer.getAttribute('width') !== String(width)) {
+    layer.setAttribute('width', String(width));
+  }
+  if (layer.getAttribute('height') !== String(height)) {
+    layer.setAttribute('height', String(height));
+  }
+
+  const existing = new Map([...layer.children].map(group => [group.getAttribute('data-wdh-shape'), group]));
+  const groups = shapes.map(resolved => {
+    const spec = getShapeGroupSpec(resolved, true);
+    const group = existing.get(resolved.shape.id);
+    return group && patchSvgNode(group, spec) ? group : createSvgNode(spec);
+  });
+  // 図形の追加・削除・並びの変化があった場合だけ子要素を入れ替える
+  if (groups.length !== layer.children.length || groups.some((group, i) => layer.children[i] !== group)) {
+    layer.replaceChildren(...groups);
+  }
+}
+
+// SVG出力用の図形のグループ（編集用の当たり判定やハンドルは含めない）
+export function createShapeGroups(shapes: ResolvedShape[]): SVGGElement[] {
+  return shapes.map(shape => createSvgNode(getShapeGroupSpec(shape, false)) as SVGGElement);
+}
+
+// 出力用キャンバスに図形を描画（scaleはキャンバスのCSS pxに対する倍率）
+export function drawShapesOnCanvas(ctx: CanvasRenderingContext2D, shapes: ResolvedShape[], scale: number = 1): void {
+  ctx.save();
+  ctx.scale(scale, scale);
+
+  shapes.forEach(({ shape, points: p, hex }) => {
+    if (shape.type === 'callout') {
+      const rect = getCalloutRect(p);
+      ctx.fillStyle = '#ffffff';
+      ctx.strokeStyle = hex;
+      ctx.lineWidth = CALLOUT_BORDER_WIDTH;
+      ctx.beginPath();
+      ctx.roundRect(rect.x, rect.y, rect.width, rect.height, 4);
+      ctx.fill();
+      ctx.stroke();
+
+      ctx.fillStyle = '#333333';
+      ctx.font = CALLOUT_FONT;
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      layoutCalloutText(shape.text, rect.width).forEach((line, i) => {
+        ctx.fillText(line, rect.x + CALLOUT_PADDING, rect.y + CALLOUT_PADDING + i * CALLOUT_LINE_HEIGHT);
+      });
+      return;
+    }
+
+    const end = shape.type === 'arrow' ? getArrowLineEnd(p) : { x: p.x2, y: p.y2 };
+    ctx.strokeStyle = hex;
+    ctx.lineWidth = STROKE_WIDTH;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(p.x1, p.y1);
+    ctx.lineTo(end.x, end.y);
+    ctx.stroke();
+
+    if (shape.type === 'arrow') {
+      const head = getArrowHead(p);
+      ctx.fillStyle = hex;
+      ctx.beginPath();
+      ctx.moveTo(head[0][0], head[0][1]);
+      ctx.lineTo(head[1][0], head[1][1]);
+      ctx.lineTo(head[2][0], head[2][1]);
+      ctx.closePath();
+      ctx.fill();
+    }
+  });
+
+  ctx.restore();
+}
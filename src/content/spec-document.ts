@@ -0,0 +1,312 @@
+import type { LegendItem } from './legend';
+import { wrapText } from './utils';
+
+// PDFの画面設計書のページ（表紙・全体の画像・注釈ごとの切り出しと子の一覧）をキャンバスに描く
+
+// A4横のページの大きさ（CSS px、96dpi）とPDF上の大きさ（pt）
+const PAGE_WIDTH = 1123;
+const PAGE_HEIGHT = 794;
+export const PAGE_WIDTH_PT = 842;
+export const PAGE_HEIGHT_PT = 595;
+// ページを描くキャンバスの解像度（CSS pxに対する倍率）
+const PAGE_SCALE = 2;
+
+// レイアウト定数（CSS px）
+const MARGIN = 40;
+const HEADING_HEIGHT = 44;
+const FOOTER_HEIGHT = 24;
+const COLUMN_GAP = 24;
+const IMAGE_COLUMN_RATIO = 0.58;
+const CELL_PADDING = 8;
+const LINE_HEIGHT = 18;
+const LABEL_COLUMN_WIDTH = 88;
+const TAG_COLUMN_WIDTH = 96;
+const INDENT = 12;
+const TITLE_FONT = 'bold 32px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+const HEADING_FONT = 'bold 20px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+const TEXT_FONT = '13px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+const HEADER_FONT = 'bold 13px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+const LABEL_FONT = 'bold 14px Arial, sans-serif';
+const FOOTER_FONT = '11px -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+
+// 注釈ごとのページの内容
+export interface SpecDocumentSection {
+  title: string; // 見出し（ラベルとタグなど）
+  renderImage: () => HTMLCanvasElement; // 注釈と子の注釈を含めて切り出した画像（ページを描く直前に作り、描き終えたら破棄する）
+  rows: LegendItem[]; // 子孫の注釈（階層順）
+}
+
+export interface SpecDocument {
+  title: string; // ページのタイトル
+  url: string;
+  created: Date;
+  annotationCount: number;
+  overviewTitle: string;
+  renderOverview: () => HTMLCanvasElement; // 全体の画像（ページを描く直前に作り、描き終えたら破棄する）
+  sections: SpecDocumentSection[];
+}
+
+// 1ページ分の描画（ページ番号の入ったフッターは全ページ数が決まってから描く）
+type PagePainter = (ctx: CanvasRenderingContext2D) => void;
+
+// 表の1行分のレイアウト
+interface TableRow {
+  item: LegendItem;
+  tag: string;
+  lines: string[];
+  height: number;
+}
+
+const CONTENT_TOP = MARGIN + HEADING_HEIGHT;
+const CONTENT_BOTTOM = PAGE_HEIGHT - MARGIN - FOOTER_HEIGHT;
+
+function formatDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}/${pad(date.getMonth() + 1)}/${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// 見出しを描画
+function drawHeading(ctx: CanvasRenderingContext2D, text: string): void {
+  ctx.font = HEADING_FONT;
+  ctx.fillStyle = '#333333';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  const [line] = wrapText(ctx, text, PAGE_WIDTH - MARGIN * 2);
+  ctx.fillText(line, MARGIN, MARGIN);
+}
+
+// キャンバスのメモリをガベージコレクションを待たずに解放
+function releaseCanvas(canvas: HTMLCanvasElement): void {
+  canvas.width = 0;
+  canvas.height = 0;
+}
+
+// 画像を枠内に縦横比を保って収めて描画
+function drawImageFit(ctx: CanvasRenderingContext2D, image: HTMLCanvasElement, x: number, y: number, width: number, height: number): void {
+  const scale = Math.min(width / image.width, height / image.height);
+  const drawWidth = image.width * scale;
+  const drawHeight = image.height * scale;
+  ctx.drawImage(image, x, y, drawWidth, drawHeight);
+  ctx.strokeStyle = '#e0e0e0';
+  ctx.lineWidth = 1;
+  ctx.strokeRect(x + 0.5, y + 0.5, drawWidth - 1, drawHeight - 1);
+}
+
+// 表の各行の折り返しと高さを計算
+function layoutTableRows(ctx: CanvasRenderingContext2D, items: LegendItem[], width: number): TableRow[] {
+  const descriptionWidth = Math.max(80, width - LABEL_COLUMN_WIDTH - TAG_COLUMN_WIDTH - CELL_PADDING * 2);
+  ctx.font = TEXT_FONT;
+  return items.map(item => {
+    const lines = wrapText(ctx, item.description.trim() || '-', descriptionWidth);
+    return {
+      item,
+      tag: item.tagName ? `<${item.tagName}>` : '範囲',
+      lines,
+      height: lines.length * LINE_HEIGHT + CELL_PADDING * 2,
+    };
+  });
+}
+
+// 表（番号・要素・説明）を描画
+function drawTable(ctx: CanvasRenderingContext2D, rows: TableRow[], x: number, y: number, width: number): void {
+  const tagX = x + LABEL_COLUMN_WIDTH;
+  const descriptionX = tagX + TAG_COLUMN_WIDTH;
+  const headerHeight = LINE_HEIGHT + CELL_PADDING * 2;
+
+  ctx.fillStyle = '#f5f5f5';
+  ctx.fillRect(x, y, width, headerHeight);
+  ctx.font = HEADER_FONT;
+  ctx.fillStyle = '#333333';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'top';
+  ctx.fillText('番号', x + CELL_PADDING, y + CELL_PADDING);
+  ctx.fillText('要素', tagX + CELL_PADDING, y + CELL_PADDING);
+  ctx.fillText('説明', descriptionX + CELL_PADDING, y + CELL_PADDING);
+
+  let rowY = y + headerHeight;
+  rows.forEach(row => {
+    ctx.strokeStyle = '#e0e0e0';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.moveTo(x, rowY + 0.5);
+    ctx.lineTo(x + width, rowY + 0.5);
+    ctx.stroke();
+
+    const textY = rowY + CELL_PADDING;
+    ctx.font = LABEL_FONT;
+    ctx.fillStyle = row.item.hex;
+    ctx.fillText(row.item.label, x + CELL_PADDING + row.item.depth * INDENT, textY);
+
+    ctx.font = TEXT_FONT;
+    ctx.fillStyle = '#666666';
+    ctx.fillText(row.tag, tagX + CELL_PADDING, textY, TAG_COLUMN_WIDTH - CELL_PADDING * 2);
+
+    ctx.fillStyle = row.item.description.trim() ? '#333333' : '#999999';
+    row.lines.forEach((line, i) => {
+      ctx.fillText(line, descriptionX + CELL_PADDING, textY + i * LINE_HEIGHT);
+    });
+    rowY += row.height;
+  });
+}
+
+// 表の行をページの高さに収まるように分割
+function paginateRows(rows: TableRow[], pageHeight: number): TableRow[][] {
+  const headerHeight = LINE_HEIGHT + CELL_PADDING * 2;
+  const pages: TableRow[][] = [[]];
+  let available = pageHeight - headerHeight;
+  rows.forEach(row => {
+    const current = pages[pages.length - 1];
+    // 1行がページに収まらない場合もその行だけのページにする
+    if (current.length > 0 && row.height > available) {
+      pages.push([row]);
+      available = pageHeight - headerHeight - row.height;
+      return;
+    }
+    current.push(row);
+    available -= row.height;
+  });
+  return pages;
+}
+
+// 表紙
+function paintCover(doc: SpecDocument): PagePainter {
+  return ctx => {
+    const width = PAGE_WIDTH - MARGIN * 4;
+    let y = PAGE_HEIGHT / 3;
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'top';
+
+    ctx.font = TITLE_FONT;
+    ctx.fillStyle = '#333333';
+    ctx.fillText('画面設計書', MARGIN * 2, y);
+    y += 56;
+
+    ctx.font = HEADING_FONT;
+    wrapText(ctx, doc.title, width).slice(0, 2).forEach(line => {
+      ctx.fillText(line, MARGIN * 2, y);
+      y += 30;
+    });
+    y += 24;
+
+    ctx.strokeStyle = '#007bff';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(MARGIN * 2, y);
+    ctx.lineTo(MARGIN * 2 + width, y);
+    ctx.stroke();
+    y += 24;
+
+    ctx.font = TEXT_FONT;
+    ctx.fillStyle = '#666666';
+    [
+      ...wrapText(ctx, `URL: ${doc.url}`, width),
+      `作成日: ${formatDate(doc.created)}`,
+      `注釈: ${doc.annotationCount}件`,
+    ].forEach(line => {
+      ctx.fillText(line, MARGIN * 2, y);
+      y += 22;
+    });
+  };
+}
+
+// 全体の画像のページ
+function paintOverview(doc: SpecDocument): PagePainter {
+  return ctx => {
+    drawHeading(ctx, doc.overviewTitle);
+    const image = doc.renderOverview();
+    drawImageFit(ctx, image, MARGIN, CONTENT_TOP, PAGE_WIDTH - MARGIN * 2, CONTENT_BOTTOM - CONTENT_TOP);
+    releaseCanvas(image);
+  };
+}
+
+// 注釈ごとのページ（左に切り出した画像、右に子の一覧。一覧が収まらない場合は続きのページに全幅で描く）
+function paintSection(measureCtx: CanvasRenderingContext2D, section: SpecDocumentSection): PagePainter[] {
+  const contentWidth = PAGE_WIDTH - MARGIN * 2;
+  const imageWidth = Math.floor(contentWidth * IMAGE_COLUMN_RATIO);
+  const tableX = MARGIN + imageWidth + COLUMN_GAP;
+  const tableWidth = contentWidth - imageWidth - COLUMN_GAP;
+  const contentHeight = CONTENT_BOTTOM - CONTENT_TOP;
+
+  const rows = layoutTableRows(measureCtx, section.rows, tableWidth);
+  const [firstRows, ...restPages] = paginateRows(rows, contentHeight);
+
+  const painters: PagePainter[] = [ctx => {
+    drawHeading(ctx, section.title);
+    const image = section.renderImage();
+    drawImageFit(ctx, image, MARGIN, CONTENT_TOP, imageWidth, contentHeight);
+    releaseCanvas(image);
+    if (rows.length === 0) {
+      ctx.font = TEXT_FONT;
+      ctx.fillStyle = '#999999';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      ctx.fillText('子の注釈はありません', tableX, CONTENT_TOP);
+      return;
+    }
+    drawTable(ctx, firstRows, tableX, CONTENT_TOP, tableWidth);
+  }];
+
+  restPages.forEach(pageRows => {
+    // 続きのページは全幅で描くため、折り返しを計算し直す
+    const fullRows = layoutTableRows(measureCtx, pageRows.map(row => row.item), contentWidth);
+    painters.push(ctx => {
+      drawHeading(ctx, `${section.title}（続き）`);
+      drawTable(ctx, fullRows, MARGIN, CONTENT_TOP, contentWidth);
+    });
+  });
+  return painters;
+}
+
+// フッター（文書のタイトルとページ番号）
+function drawFooter(ctx: CanvasRenderingContext2D, title: string, pageNumber: number, pageCount: number): void {
+  ctx.font = FOOTER_FONT;
+  ctx.fillStyle = '#999999';
+  ctx.textBaseline = 'bottom';
+  ctx.textAlign = 'left';
+  ctx.fillText(title, MARGIN, PAGE_HEIGHT - MARGIN, PAGE_WIDTH / 2);
+  ctx.textAlign = 'right';
+  ctx.fillText(`${pageNumber} / ${pageCount}`, PAGE_WIDTH - MARGIN, PAGE_HEIGHT - MARGIN);
+}
+
+// 画面設計書の各ページを1枚ずつキャンバスに描画して返す
+// 注釈の多い文書でもキャンバスのメモリを使い切らないよう、すべてのページを同じキャンバスに描き直す
+// （次のページに進む前に、呼び出し側で返されたキャンバスを画像にしておく）
+export function* renderSpecDocumentPages(doc: SpecDocument): Generator<HTMLCanvasElement> {
+  const measureCtx = document.createElement('canvas').getContext('2d');
+  if (!measureCtx) {
+    throw new Error('Canvas is not available');
+  }
+
+  // ページ数を先に決めるため、画像を作らずに表の行の分割だけを計算する
+  const painters: PagePainter[] = [
+    paintCover(doc),
+    paintOverview(doc),
+    ...doc.sections.flatMap(section => paintSection(measureCtx, section)),
+  ];
+
+  const canvas = document.createElement('canvas');
+  canvas.width = PAGE_WIDTH * PAGE_SCALE;
+  canvas.height = PAGE_HEIGHT * PAGE_SCALE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not available');
+  }
+
+  try {
+    for (let i = 0; i < painters.length; i++) {
+      ctx.save();
+      ctx.scale(PAGE_SCALE, PAGE_SCALE);
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, PAGE_WIDTH, PAGE_HEIGHT);
+      painters[i](ctx);
+      // 表紙にはページ番号を付けない
+      if (i > 0) {
+        drawFooter(ctx, doc.title, i + 1, painters.length);
+      }
+      ctx.restore();
+      yield canvas;
+    }
+  } finally {
+    releaseCanvas(canvas);
+  }
+}
@@ -0,0 +1,198 @@
+import type { PaletteColor, SelectedElement } from '../types';
+import { escapeHtml } from './utils';
+
+// 仕様表の1行分の情報
+export interface SpecRow {
+  id: string;
+  label: string;
+  parentLabel: string;
+  depth: number; // 階層の深さ（0: トップレベル）
+  tagName: string; // 範囲注釈の場合は空文字
+  selector: string;
+  width: number;
+  height: number;
+  colorLabel: string;
+  hex: string;
+  description: string;
+}
+
+// 表の列見出し
+const HEADERS = ['番号', '親', '階層', '要素', 'セレクタ', 'サイズ', '色', '説明'];
+
+// 番号・親の列（"1-1" や "2/3" が日付に変換されないよう表計算ソフトには文字列として渡す）
+const LABEL_COLUMNS = [0, 1];
+
+// 要素一覧を階層順（親の直後に子）の行に変換（色名はパレットから取得し、パレットにない色はHEXで表す）
+export function buildSpecRows(elements: SelectedElement[], palette: PaletteColor[]): SpecRow[] {
+  const rows: SpecRow[] = [];
+  const ids = new Set(elements.map(e => e.id));
+
+  const visit = (parent: SelectedElement | null, depth: number) => {
+    elements
+      .filter(e => parent
+        ? e.parentId === parent.id
+        // 親が見つからない要素もトップレベルとして扱う
+        : e.parentId === null || !ids.has(e.parentId))
+      .forEach(el => {
+        const color = palette.find(c => c.hex === el.color);
+        rows.push({
+          id: el.id,
+          label: el.label,
+          parentLabel: parent?.label ?? '',
+          depth,
+          tagName: el.kind === 'region' ? '' : el.tagName,
+          selector: el.selector,
+          width: Math.round(el.rect.width),
+          height: Math.round(el.rect.height),
+          colorLabel: color?.label ?? el.color,
+          hex: el.color,
+          description: el.description ?? '',
+        });
+        visit(el, depth + 1);
+      });
+  };
+  visit(null, 0);
+
+  return rows;
+}
+
+// 各列の値を文字列で取得
+function getCells(row: SpecRow): string[] {
+  return [
+    row.label,
+    row.parentLabel,
+    String(row.depth + 1),
+    row.tagName ? `<${row.tagName}>` : '範囲',
+    row.selector,
+    `${row.width} × ${row.height}`,
+    row.colorLabel,
+    row.description,
+  ];
+}
+
+// 表計算ソフトで文字列として読まれる形にする（="1-1" の数式）
+function toTextFormula(value: string): string {
+  return value ? `="${value.replace(/"/g, '""')}"` : value;
+}
+
+// Markdownの表に変換
+export function toMarkdown(rows: SpecRow[]): string {
+  const escapeCell = (value: string) => value
+    .replace(/\\/g, '\\\\')
+    .replace(/\|/g, '\\|')
+    .replace(/\r?\n/g, '<br>');
+
+  const lines = [
+    `| ${HEADERS.join(' | ')} |`,
+    `| ${HEADERS.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => {
+      const cells = getCells(row).map(escapeCell);
+      // 番号は階層に応じて字下げ
+      cells[0] = `${'&emsp;'.repeat(row.depth)}${cells[0]}`;
+      // セレクタはコードとして表示
+      cells[4] = cells[4] ? `\`${cells[4]}\`` : '';
+      return `| ${cells.join(' | ')} |`;
+    }),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+// CSVに変換（Excelで文字化けしないようBOM付き、改行はCRLF）
+export function toCsv(rows: SpecRow[]): string {
+  const escapeCell = (value: string) => /[",\r\n]/.test(value)
+    ? `"${value.replace(/"/g, '""')}"`
+    : value;
+
+  const lines = [
+    HEADERS.map(escapeCell).join(','),
+    ...rows.map(row => getCells(row)
+      .map((value, i) => escapeCell(LABEL_COLUMNS.includes(i) ? toTextFormula(value) : value))
+      .join(',')),
+  ];
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+}
+
+// 単体で開けるHTMLファイルに変換
+export function toHtmlDocument(rows: SpecRow[], title: string, url: string): string {
+  const bodyRows = rows.map(row => {
+    const cells = getCells(row).map(value => escapeHtml(value).replace(/\r?\n/g, '<br>'));
+    return `
+      <tr>
+        <td class="label" style="padding-left: ${8 + row.depth * 20}px;"><span class="badge" style="color: ${row.hex}; border-color: ${row.hex};">${cells[0]}</span></td>
+        <td>${cells[1]}</td>
+        <td>${cells[2]}</td>
+        <td><code>${cells[3]}</code></td>
+        <td><code>${cells[4]}</code></td>
+        <td>${cells[5]}</td>
+        <td><span class="swatch" style="background-color: ${row.hex};"></span>${cells[6]}</td>
+        <td>${cells[7]}</td>
+      </tr>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="ja">
+<head>
+  <meta charset="UTF-8">
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; color: #333333; margin: 24px; }
+    h1 { font-size: 18px; margin: 0 0 4px; }
+    .url { font-size: 12px; color: #666666; margin: 0 0 16px; word-break: break-all; }
+    table { border-collapse: collapse; font-size: 13px; }
+    th, td { border: 1px solid #cccccc; padding: 6px 8px; text-align: left; vertical-align: top; }
+    th { background-color: #f5f5f5; white-space: nowrap; }
+    code { font-size: 12px; }
+    .badge { display: inline-block; min-width: 20px; padding: 2px 6px; border: 2px solid; border-radius: 12px; background-color: #ffffff; font-weight: bold; text-align: center; }
+    .swatch { display: inline-block; width: 10px; height: 10px; margin-right: 4px; border-radius: 50%; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHtml(title)}</h1>
+  <p class="url">${escapeHtml(url)}</p>
+  <table>
+    <thead>
+      <tr>${HEADERS.map(h => `<th>${h}</th>`).join('')}</tr>
+    </thead>
+    <tbody>${bodyRows}
+    </tbody>
+  </table>
+</body>
+</html>
+`;
+}
+
+// タブ区切りテキストに変換（スプレッドシートに貼り付けると1要素1行になるよう、セル内のタブと改行は空白に置換）
+export function toTsv(rows: SpecRow[]): string {
+  const escapeCell = (value: string) => value.replace(/[\t\r\n]+/g, ' ');
+
+  const lines = [
+    HEADERS.join('\t'),
+    ...rows.map(row => getCells(row)
+      .map((value, i) => escapeCell(LABEL_COLUMNS.includes(i) ? toTextFormula(value) : value))
+      .join('\t')),
+  ];
+  return lines.join('\n') + '\n';
+}
+
+// クリップボード用のHTMLの表に変換（貼り付け先で<style>が無視されるためインラインスタイルで装飾）
+export function toClipboardHtml(rows: SpecRow[]): string {
+  const cellStyle = 'border: 1px solid #cccccc; padding: 4px 8px; text-align: left; vertical-align: top;';
+  // 番号・親の列はExcelに文字列の書式として貼り付ける
+  const textStyle = `${cellStyle} mso-number-format: '\\@';`;
+
+  const headerHtml = HEADERS
+    .map(h => `<th style="${cellStyle} background-color: #f5f5f5; font-weight: bold;">${h}</th>`)
+    .join('');
+
+  const bodyHtml = rows.map(row => {
+    const cells = getCells(row).map(value => escapeHtml(value).replace(/\r?\n/g, '<br>'));
+    // 番号セルは枠色で塗りつぶす
+    const labelCell = `<td style="${textStyle} background-color: ${row.hex}; color: #ffffff; font-weight: bold;">${cells[0]}</td>`;
+    const otherCells = cells.slice(1)
+      .map((value, i) => `<td style="${LABEL_COLUMNS.includes(i + 1) ? textStyle : cellStyle}">${value}</td>`)
+      .join('');
+    return `<tr>${labelCell}${otherCells}</tr>`;
+  }).join('');
+
+  return `<table style="border-collapse: collapse; font-size: 13px;"><thead><tr>${headerHtml}</tr></thead><tbody>${bodyHtml}</tbody></table>`;
+}
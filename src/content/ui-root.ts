@@ -0,0 +1,52 @@
+import styles from './styles.css?inline';
+
+// 拡張機能のUI（パネル・オーバーレイ・ツールチップ・トースト）を描画する閉じたシャドウルート
+// ページのCSSの影響を受けず、ページのスクリプトやセレクタからも中身が見えない
+
+// ホストのタグ名（ページのdivなどへのセレクタに一致しないようカスタム要素名にする）
+const HOST_TAG = 'wdh-ui-root';
+
+let host: HTMLElement | null = null;
+let root: ShadowRoot | null = null;
+
+// UIのシャドウルートを取得（なければbody直下にホストを作成）
+export function getUiRoot(): ShadowRoot {
+  if (host && root && host.isConnected) {
+    return root;
+  }
+
+  host = document.createElement(HOST_TAG);
+  // ホスト自身は箱を作らず、継承されるスタイル（フォントや色など）もページから引き継がない
+  // オーバーレイの配置基準をbody直下に置いていたときと同じにするためdisplay: contentsにする
+  host.style.cssText = 'all: initial !important; display: contents !important;';
+  root = host.attachShadow({ mode: 'closed' });
+
+  const style = document.createElement('style');
+  style.textContent = styles;
+  root.appendChild(style);
+
+  document.body.appendChild(host);
+  return root;
+}
+
+// UIのシャドウルートを削除
+export function removeUiRoot(): void {
+  host?.remove();
+  host = null;
+  root = null;
+}
+
+// UIを一時的に非表示にする（ブラウザのスクリーンショットにUIを写さないため）
+export function setUiRootHidden(hidden: boolean): void {
+  host?.style.setProperty('display', hidden ? 'none' : 'contents', 'important');
+}
+
+// UIのホスト要素か（閉じたシャドウルート内のイベントはページ側ではホストが対象になる）
+export function isUiHost(node: unknown): boolean {
+  return node !== null && node === host;
+}
+
+// UI内でフォーカスされている要素（ページ側のdocument.activeElementはホストになるため）
+export function getUiActiveElement(): Element | null {
+  return root?.activeElement ?? null;
+}
@@ -0,0 +1,66 @@
+// HTMLに埋め込む文字列をエスケープ
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// ファイル名用のタイムスタンプ（例: 2024-01-01T12-00-00）
+export function getTimestamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-').slice(0, 19);
+}
+
+// Blobをファイルとしてダウンロード
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  link.click();
+  // ダウンロード開始後に解放
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// キャンバスを画像のBlobに変換（既定はPNG、JPEGはqualityで画質を指定）
+export function canvasToBlob(canvas: HTMLCanvasElement, type: string = 'image/png', quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode image'));
+      }
+    }, type, quality);
+  });
+}
+
+// ラベルなどをファイル名に使える形にする（パス区切りやOSで使えない文字、空白を置き換え）
+export function toFileNamePart(text: string): string {
+  return text.trim().replace(/[\\/:*?"<>|\s]+/g, '_') || 'untitled';
+}
+
+// テキストを指定幅で折り返す（フォントはctxに設定済みのもの。日本語は空白がないため1文字単位で折り返す）
+export function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    for (const char of paragraph) {
+      if (line && ctx.measureText(line + char).width > maxWidth) {
+        lines.push(line);
+        line = char;
+      } else {
+        line += char;
+      }
+    }
+    lines.push(line);
+  });
+  return lines;
+}
+
+// HEX（#rrggbb）を指定の不透明度のrgba()に変換
+export function hexToRgba(hex: string, alpha: number): string {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${alpha})`;
+}
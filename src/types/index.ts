@@ -1,29 +1,261 @@
-// 利用可能な枠色
-export type FrameColor = 'red' | 'blue' | 'green' | 'yellow' | 'black';
+// 枠色（#rrggbb形式のHEX）
+export type FrameColor = string;
 
-export const FRAME_COLORS: { value: FrameColor; label: string; hex: string }[] = [
-  { value: 'red', label: '赤', hex: '#ff0000' },
-  { value: 'blue', label: '青', hex: '#0066ff' },
-  { value: 'green', label: '緑', hex: '#00aa00' },
-  { value: 'yellow', label: '黄', hex: '#ffaa00' },
-  { value: 'black', label: '黒', hex: '#333333' },
+// カラーパレットの色
+export interface PaletteColor {
+  hex: FrameColor;
+  label: string;
+}
+
+// 初期のカラーパレット（ユーザーが追加・削除でき、拡張機能のストレージに保存される）
+export const DEFAULT_PALETTE: PaletteColor[] = [
+  { hex: '#ff0000', label: '赤' },
+  { hex: '#0066ff', label: '青' },
+  { hex: '#00aa00', label: '緑' },
+  { hex: '#ffaa00', label: '黄' },
+  { hex: '#333333', label: '黒' },
+];
+
+// 枠線の種類
+export type StrokeStyle = 'solid' | 'dashed' | 'dotted';
+
+export const STROKE_STYLES: { value: StrokeStyle; label: string }[] = [
+  { value: 'solid', label: '実線' },
+  { value: 'dashed', label: '破線' },
+  { value: 'dotted', label: '点線' },
+];
+
+// 枠内の塗りの不透明度（0は塗りなし）
+export const FILL_OPACITIES: { value: number; label: string }[] = [
+  { value: 0, label: 'なし' },
+  { value: 0.1, label: '10%' },
+  { value: 0.2, label: '20%' },
+  { value: 0.3, label: '30%' },
+];
+
+// 枠線の太さの範囲（px）
+export const STROKE_WIDTH_MIN = 1;
+export const STROKE_WIDTH_MAX = 10;
+
+// 番号バッジを置く枠の角（autoは重なりやはみ出しを避けて自動で配置）
+export type BadgeAnchor = 'auto' | 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export const BADGE_ANCHORS: { value: BadgeAnchor; label: string }[] = [
+  { value: 'auto', label: '自動' },
+  { value: 'top-left', label: '左上' },
+  { value: 'top-right', label: '右上' },
+  { value: 'bottom-left', label: '左下' },
+  { value: 'bottom-right', label: '右下' },
+];
+
+// 枠の角に対する番号バッジの置き方
+export type BadgeSide = 'edge' | 'outside' | 'inside';
+
+export const BADGE_SIDES: { value: BadgeSide; label: string }[] = [
+  { value: 'edge', label: '角の上' },
+  { value: 'outside', label: '外側' },
+  { value: 'inside', label: '内側' },
 ];
 
+// 要素を再特定するための手がかり（値がない項目は空文字）
+export interface ElementFingerprint {
+  elementId: string; // id属性
+  testId: string; // data-testid などのテスト用属性
+  ariaLabel: string; // aria-label属性
+  text: string; // テキスト内容の先頭部分（空白を正規化）
+  path: string; // body からの完全なCSSセレクタパス
+  xpath: string; // XPath
+}
+
+// 復元時の一致状態（detached: 編集中に要素がページから削除され、再表示を待っている）
+export type MatchStatus = 'ok' | 'uncertain' | 'missing' | 'detached';
+
+export interface ElementMatch {
+  status: MatchStatus;
+  confidence: number; // 一致度（0〜1）
+}
+
+// 注釈の種類（element: DOM要素に紐付く、region: ページ上の範囲を直接指定）
+export type AnnotationKind = 'element' | 'region';
+
 // 選択された要素の情報
 export interface SelectedElement {
   id: string;
+  kind: AnnotationKind; // regionの場合はselectorなしで、rectがページ座標として固定される
   label: string; // 自由入力の番号/ラベル（例: "1", "1-1", "A"など）
+  customLabel: boolean; // ユーザーが手動で変更したラベルかどうか（振り直し時に保持できる）
   parentId: string | null; // 親要素のID（サブセクションの場合）
   selector: string;
   tagName: string;
   color: FrameColor;
+  strokeStyle: StrokeStyle;
+  strokeWidth: number; // 枠線の太さ（px）
+  fillOpacity: number; // 枠内を枠色で塗る不透明度（0は塗りなし）
   padding: number; // 枠の余白（px）
+  badgeAnchor: BadgeAnchor;
+  badgeSide: BadgeSide;
+  description: string; // 説明文（複数行可、凡例や仕様表に出力）
+  fingerprint: ElementFingerprint; // 再特定用の手がかり
+  match?: ElementMatch; // 復元時の一致状態（実行時のみ、保存しない）
   rect: {
     top: number;
     left: number;
     width: number;
     height: number;
-  };
+  }; // 最後に確認できた位置とサイズ（ページ座標）
+}
+
+// 図形（矢印・直線・テキスト吹き出し）
+export type ShapeType = 'arrow' | 'line' | 'callout';
+
+export const SHAPE_TYPES: { value: ShapeType; label: string }[] = [
+  { value: 'arrow', label: '矢印' },
+  { value: 'line', label: '直線' },
+  { value: 'callout', label: 'テキスト' },
+];
+
+export interface Shape {
+  id: string;
+  type: ShapeType;
+  color: FrameColor;
+  attachedTo: string | null; // 紐付け先の注釈ID（紐付け先に追従する）
+  // 始点と終点（calloutは左上と右下）。紐付け先がある場合はその左上からの相対座標、ない場合はページ座標
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  text: string; // テキスト吹き出しの本文
+}
+
+// 画像出力時の凡例の配置
+export type LegendPosition = 'none' | 'right' | 'bottom';
+
+export const LEGEND_POSITIONS: { value: LegendPosition; label: string }[] = [
+  { value: 'none', label: 'なし' },
+  { value: 'right', label: '右' },
+  { value: 'bottom', label: '下' },
+];
+
+// 仕様表の出力形式
+export type TableFormat = 'markdown' | 'csv' | 'html';
+
+export const TABLE_FORMATS: { value: TableFormat; label: string; extension: string; mimeType: string }[] = [
+  { value: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { value: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' },
+  { value: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html' },
+];
+
+// 画像出力時のページの描画方法
+// html2canvas: DOMから描き直す（スクロールしないが、Webフォント・CSSフィルター・クロスオリジン画像などが再現されないことがある）
+// native: ブラウザのスクリーンショット（captureVisibleTab）をスクロールしながら撮ってつなぎ合わせる
+export type CaptureRenderer = 'html2canvas' | 'native';
+
+export const CAPTURE_RENDERERS: { value: CaptureRenderer; label: string }[] = [
+  { value: 'html2canvas', label: 'html2canvas' },
+  { value: 'native', label: 'スクリーンショット' },
+];
+
+export const DEFAULT_CAPTURE_RENDERER: CaptureRenderer = 'html2canvas';
+
+// 画像の出力範囲（位置はページ座標）
+export type CaptureScope =
+  | { kind: 'page' } // ページ全体
+  | { kind: 'viewport' } // 表示中の範囲
+  | { kind: 'annotation'; id: string } // 注釈とその子孫
+  | { kind: 'region'; rect: { left: number; top: number; width: number; height: number } }; // ドラッグで指定した範囲
+
+export type CaptureScopeKind = CaptureScope['kind'];
+
+export const CAPTURE_SCOPES: { value: CaptureScopeKind; label: string }[] = [
+  { value: 'page', label: 'ページ全体' },
+  { value: 'viewport', label: '表示範囲' },
+  { value: 'annotation', label: 'フォーカス中の注釈' },
+  { value: 'region', label: 'ドラッグで指定' },
+];
+
+// 生成した画像の出力先
+export type CaptureOutput = 'download' | 'clipboard' | 'blob';
+
+// 番号の書式
+export type NumberingStyle = 'decimal' | 'upper-alpha' | 'lower-alpha' | 'circled' | 'lower-roman' | 'upper-roman';
+
+export const NUMBERING_STYLES: { value: NumberingStyle; label: string }[] = [
+  { value: 'decimal', label: '1, 2, 3' },
+  { value: 'upper-alpha', label: 'A, B, C' },
+  { value: 'lower-alpha', label: 'a, b, c' },
+  { value: 'circled', label: '①, ②, ③' },
+  { value: 'lower-roman', label: 'i, ii, iii' },
+  { value: 'upper-roman', label: 'I, II, III' },
+];
+
+// 親子の番号の区切り文字
+export const NUMBERING_SEPARATORS = ['-', '.', '_', '/'];
+
+// 番号の振り方（注釈セットごと）
+export interface NumberingScheme {
+  levels: NumberingStyle[]; // 階層ごとの書式（要素数より深い階層は最後の書式を使う）
+  separator: string; // 親子の番号の区切り文字（例: "-" なら "1-1"、"." なら "1.1"）
+}
+
+export const DEFAULT_NUMBERING_SCHEME: NumberingScheme = {
+  levels: ['decimal', 'decimal', 'decimal'],
+  separator: '-',
+};
+
+// 保存データ（localStorageとJSONファイルで共通）
+export interface SavedState {
+  schemaVersion: number;
+  elements: SelectedElement[];
+  nextNumber: number;
+  focusedElementId: string | null;
+  focusedSubNumber: number;
+  legendPosition: LegendPosition;
+  tableFormat: TableFormat;
+  shapes: Shape[];
+  keepCustomLabels: boolean; // 番号の振り直しで手動のラベルを保持するか
+  numbering: NumberingScheme;
+}
+
+// JSONファイルとして出力する注釈セット
+export interface AnnotationFile extends SavedState {
+  url: string; // 出力元ページのURL
+  viewport: { width: number; height: number }; // 出力時のビューポートサイズ
+  exportedAt: string; // ISO 8601形式の出力日時
+}
+
+// 保存キーを決めるURLの正規化ルール
+export interface UrlMatchRules {
+  ignoreQuery: boolean; // クエリ文字列をすべて無視
+  ignoreHash: boolean; // ハッシュ（#以降）を無視
+  ignoredParams: string[]; // 無視するクエリパラメータ名（セッショントークンなど）
+  patterns: string[]; // 同じテンプレートとみなすURLパターン（例: "/users/*/edit"）
+}
+
+export const DEFAULT_URL_MATCH_RULES: UrlMatchRules = {
+  ignoreQuery: false,
+  ignoreHash: true,
+  ignoredParams: [],
+  patterns: [],
+};
+
+// 状態の読み込み・保存・削除リクエスト（Content Script → Background）
+export interface StateRequest {
+  url: string;
+  state?: SavedState;
+  history?: EditHistory;
+}
+
+// 状態の読み込み・保存・削除レスポンス
+export interface StateResponse {
+  key: string; // 正規化後の保存キー
+  state: unknown; // 読み込んだ保存データ（バージョン変換前）
+  history: unknown; // 読み込んだ操作履歴（バージョン変換前）
+}
+
+// 操作履歴（元に戻す・やり直し用の状態のスナップショット、古い順）
+export interface EditHistory {
+  undo: SavedState[];
+  redo: SavedState[];
 }
 
 // メッセージタイプ
@@ -34,7 +266,22 @@ export type MessageType =
   | 'ELEMENT_REMOVED'
   | 'UPDATE_LABEL'
   | 'EXPORT_IMAGE'
-  | 'GET_STATE';
+  | 'GET_STATE'
+  | 'LOAD_STATE'
+  | 'SAVE_STATE'
+  | 'SAVE_HISTORY'
+  | 'GET_STATE_KEY'
+  | 'GET_URL_RULES'
+  | 'SAVE_URL_RULES'
+  | 'GET_PALETTE'
+  | 'SAVE_PALETTE'
+  | 'GET_CAPTURE_RENDERER'
+  | 'SAVE_CAPTURE_RENDERER'
+  | 'CAPTURE_VISIBLE_TAB'
+  | 'WATCH_HISTORY';
+
+// ページのhistory.pushState・replaceStateの呼び出し時にwindowへ発行するイベント（SPAのページ遷移の検知用）
+export const HISTORY_CHANGE_EVENT = 'wdh-history-change';
 
 // メッセージ構造
 export interface Message {